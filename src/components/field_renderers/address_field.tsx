@@ -0,0 +1,280 @@
+"use client";
+
+import * as React from "react";
+import { Input } from "../ui/input";
+import { Select } from "../ui/select";
+import { Checkbox } from "../ui/checkbox";
+import { Label } from "../ui/label";
+import { FileManagerButton } from "../file_manager_viewer/file_manager_button";
+import { cn, normalize_doc_links } from "../../lib/utils";
+import type { FieldRendererProps } from "../../lib/field_registry";
+import type { AddressValue } from "../../lib/types";
+import {
+  AU_STATES,
+  DEFAULT_ADDRESS_COUNTRY,
+  copy_address,
+  format_address,
+  is_australian_address,
+  is_same_address,
+  to_address_value,
+} from "../../lib/address";
+import { useFieldValues } from "../../hooks/use_field_values";
+import { ReferenceValue } from "./shared/reference_value";
+
+/**
+ * Address Field Renderer
+ * Street lines, suburb, state, postcode and country stored as one object.
+ * Australian addresses pick the state from the preset list; view mode shows the
+ * address on one line. With address_copy_from, a "same as" toggle copies that
+ * address and keeps following it while checked.
+ */
+export function AddressField({
+  field,
+  mode,
+  value,
+  error,
+  config,
+  on_change,
+  on_blur,
+  on_doc_link_click,
+  field_uploads,
+  on_upload_click,
+  upload_enabled,
+}: FieldRendererProps) {
+  const is_view = mode === "view";
+  const is_required = field.field_info.required;
+  const address = to_address_value(value);
+  const is_australian = is_australian_address(address);
+  const is_copied = !!address.same_as;
+  const is_disabled = field.field_info.disabled || is_copied;
+
+  const copy_from = field.field_info.address_copy_from;
+  const copy_source_values = useFieldValues(copy_from ? [copy_from] : []);
+  const copy_source = copy_from ? copy_source_values[copy_from] : undefined;
+
+  // Keep a copied address in step with its source
+  React.useEffect(() => {
+    if (is_view || !is_copied || is_same_address(address, copy_source)) return;
+    on_change(copy_address(copy_source));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [is_view, is_copied, JSON.stringify(copy_source ?? null)]);
+
+  const update_part = (part: keyof AddressValue, part_value: string) => {
+    on_change({ ...address, [part]: part_value });
+  };
+
+  const handle_copy_toggle = (checked: boolean) => {
+    on_change(checked ? copy_address(copy_source) : { ...address, same_as: false });
+  };
+
+  const input_style: React.CSSProperties = {
+    fontFamily: config.field_font_family,
+    fontSize: config.field_font_size,
+    borderColor: error ? config.error_color : undefined,
+    backgroundColor: is_disabled ? config.field_background_color_disabled : config.field_background_color,
+  };
+  const input_class = cn("cls_address_input", error && "cls_input_error border-destructive");
+
+  // Render the file manager button (shows unified button with badge for total file count)
+  const render_file_button = () => {
+    // Calculate total file count from doc_links + uploads
+    const doc_links = normalize_doc_links(field.doc_links);
+    const uploads = field_uploads || [];
+    const total_count = doc_links.length + uploads.length;
+    const has_files = total_count > 0;
+
+    // Determine click handler - use doc_link_click if available, otherwise upload_click
+    const handle_click = on_doc_link_click || (upload_enabled ? on_upload_click : undefined);
+
+    // In view mode, only show if there are files
+    if (is_view && !has_files) {
+      return null;
+    }
+
+    // Hide button if no handler and no files
+    if (!handle_click && !has_files) {
+      return null;
+    }
+
+    return (
+      <FileManagerButton
+        file_count={total_count}
+        has_files={has_files}
+        on_click={handle_click || (() => {})}
+        config={config}
+        disabled={!handle_click}
+      />
+    );
+  };
+
+  return (
+    <div className="cls_field_container cls_address_field w-full">
+      <div
+        className="cls_label_row flex items-center gap-2"
+        style={{ marginBottom: config.label_field_gap }}
+      >
+        <Label
+          htmlFor={field.id}
+          className={cn("cls_field_label", is_required && "cls_required")}
+          style={{
+            color: config.label_color,
+            fontFamily: config.label_font_family,
+            fontSize: config.label_font_size,
+            fontWeight: config.label_font_weight,
+          }}
+        >
+          {field.label}
+          {is_required && (
+            <span
+              className="cls_required_asterisk ml-1"
+              style={{ color: config.label_color_required }}
+            >
+              *
+            </span>
+          )}
+        </Label>
+        {render_file_button()}
+      </div>
+
+      {is_view ? (
+        <div
+          className="cls_field_value_display py-2 px-3 rounded-md min-h-[40px] flex items-center"
+          style={{
+            background: config.view_mode_background,
+            border: `1px solid ${config.view_mode_border}`,
+            fontFamily: config.field_font_family,
+            fontSize: config.field_font_size,
+          }}
+        >
+          {format_address(address) || "-"}
+        </div>
+      ) : (
+        <div
+          className="cls_address_inputs flex flex-col gap-2"
+          onBlur={(event) => {
+            // Validate once focus leaves the whole address, not between its inputs
+            if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+              on_blur?.();
+            }
+          }}
+        >
+          {copy_from && (
+            <label
+              htmlFor={`${field.id}__same_as`}
+              className="cls_address_copy_toggle flex items-center gap-2 cursor-pointer text-sm"
+              style={{ fontFamily: config.field_font_family }}
+            >
+              <Checkbox
+                id={`${field.id}__same_as`}
+                checked={is_copied}
+                disabled={field.field_info.disabled}
+                onCheckedChange={handle_copy_toggle}
+              />
+              {field.field_info.address_copy_label || "Same as residential address"}
+            </label>
+          )}
+          <Input
+            id={field.id}
+            value={address.address_line_1 ?? ""}
+            onChange={(e) => update_part("address_line_1", e.target.value)}
+            placeholder="Street address"
+            aria-label="Street address"
+            autoComplete="address-line1"
+            disabled={is_disabled}
+            className={input_class}
+            style={input_style}
+          />
+          <Input
+            id={`${field.id}__address_line_2`}
+            value={address.address_line_2 ?? ""}
+            onChange={(e) => update_part("address_line_2", e.target.value)}
+            placeholder="Address line 2 (optional)"
+            aria-label="Address line 2"
+            autoComplete="address-line2"
+            disabled={is_disabled}
+            className={input_class}
+            style={input_style}
+          />
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            <Input
+              id={`${field.id}__suburb`}
+              value={address.suburb ?? ""}
+              onChange={(e) => update_part("suburb", e.target.value)}
+              placeholder="Suburb"
+              aria-label="Suburb"
+              autoComplete="address-level2"
+              disabled={is_disabled}
+              className={input_class}
+              style={input_style}
+            />
+            {is_australian ? (
+              <Select
+                id={`${field.id}__state`}
+                value={address.state ?? ""}
+                onChange={(e) => update_part("state", e.target.value)}
+                aria-label="State"
+                autoComplete="address-level1"
+                disabled={is_disabled}
+                className={input_class}
+                style={input_style}
+              >
+                <option value="">State...</option>
+                {AU_STATES.map((state) => (
+                  <option key={state.value} value={state.value} title={state.label}>
+                    {state.value}
+                  </option>
+                ))}
+              </Select>
+            ) : (
+              <Input
+                id={`${field.id}__state`}
+                value={address.state ?? ""}
+                onChange={(e) => update_part("state", e.target.value)}
+                placeholder="State / region"
+                aria-label="State"
+                autoComplete="address-level1"
+                disabled={is_disabled}
+                className={input_class}
+                style={input_style}
+              />
+            )}
+            <Input
+              id={`${field.id}__postcode`}
+              value={address.postcode ?? ""}
+              onChange={(e) => update_part("postcode", e.target.value)}
+              placeholder="Postcode"
+              aria-label="Postcode"
+              autoComplete="postal-code"
+              inputMode={is_australian ? "numeric" : undefined}
+              maxLength={is_australian ? 4 : undefined}
+              disabled={is_disabled}
+              className={input_class}
+              style={input_style}
+            />
+          </div>
+          <Input
+            id={`${field.id}__country`}
+            value={address.country ?? ""}
+            onChange={(e) => update_part("country", e.target.value)}
+            placeholder={DEFAULT_ADDRESS_COUNTRY}
+            aria-label="Country"
+            autoComplete="country-name"
+            disabled={is_disabled}
+            className={input_class}
+            style={input_style}
+          />
+        </div>
+      )}
+
+      {error && (
+        <p
+          className="cls_error_message mt-1 text-sm"
+          style={{ color: config.error_color }}
+        >
+          {error}
+        </p>
+      )}
+      {field.reference_value && <ReferenceValue value={field.reference_value} />}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 import { Label } from "../ui/label";
 import { FileManagerButton } from "../file_manager_viewer/file_manager_button";
 import { cn, format_currency, format_percentage, normalize_doc_links } from "../../lib/utils";
+import { format_decimal, get_rounding_mode } from "../../lib/decimal";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import { ReferenceValue } from "./shared/reference_value";
 
@@ -35,20 +36,22 @@ export function ComputedField({
     // Check if we should format as currency or percentage
     const formula = field.field_info.computed_formula || "";
     const decimal_places = field.field_info.decimal_places ?? config.default_decimal_places;
+    const rounding_mode = get_rounding_mode(field.field_info, config);
 
     if (field.field_info.currency_symbol) {
       return format_currency(
         num,
         field.field_info.currency_symbol,
-        decimal_places
+        decimal_places,
+        rounding_mode
       );
     }
 
     if (formula.includes("%") || field.label.toLowerCase().includes("percent")) {
-      return format_percentage(num, decimal_places, config.percentage_suffix);
+      return format_percentage(num, decimal_places, config.percentage_suffix, rounding_mode);
     }
 
-    return num.toFixed(decimal_places);
+    return format_decimal(num, decimal_places, rounding_mode);
   };
 
   // Render the file manager button (shows unified button with badge for total file count)
@@ -5,6 +5,7 @@ import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { FileManagerButton } from "../file_manager_viewer/file_manager_button";
 import { cn, format_currency, normalize_doc_links } from "../../lib/utils";
+import { get_rounding_mode } from "../../lib/decimal";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import { ReferenceValue } from "./shared/reference_value";
 import type { StyleVariant } from "../../lib/types";
@@ -46,6 +47,7 @@ export function CurrencyField({
 
   const currency_symbol = field.field_info.currency_symbol || config.default_currency_symbol;
   const decimal_places = field.field_info.decimal_places ?? config.default_decimal_places;
+  const rounding_mode = get_rounding_mode(field.field_info, config);
 
   // Get style_variant from field (e.g., "total_h1", "total_h2")
   const style_variant: StyleVariant | undefined = field.style_variant;
@@ -57,7 +59,7 @@ export function CurrencyField({
     if (value === undefined || value === null || value === "") return "-";
     const num = typeof value === "number" ? value : parseFloat(String(value));
     if (isNaN(num)) return "-";
-    return format_currency(num, currency_symbol, decimal_places);
+    return format_currency(num, currency_symbol, decimal_places, rounding_mode);
   };
 
   // Parse input value
@@ -372,7 +374,12 @@ export function CurrencyField({
         if (paired_value === undefined || paired_value === null || paired_value === "") return "-";
         const num = typeof paired_value === "number" ? paired_value : parseFloat(String(paired_value));
         if (isNaN(num)) return "-";
-        return format_currency(num, paired_currency_symbol, paired_decimal_places);
+        return format_currency(
+          num,
+          paired_currency_symbol,
+          paired_decimal_places,
+          get_rounding_mode(paired_field_info, config)
+        );
       };
 
       // Handle paired input change
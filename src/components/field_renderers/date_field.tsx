@@ -5,6 +5,7 @@ import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { FileManagerButton } from "../file_manager_viewer/file_manager_button";
 import { cn, format_date, format_currency, normalize_doc_links } from "../../lib/utils";
+import { get_rounding_mode } from "../../lib/decimal";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import { ReferenceValue } from "./shared/reference_value";
 
@@ -245,7 +246,12 @@ export function DateField({
       if (paired_value === undefined || paired_value === null || paired_value === "") return "-";
       const num = typeof paired_value === "number" ? paired_value : parseFloat(String(paired_value));
       if (isNaN(num)) return "-";
-      return format_currency(num, paired_currency_symbol, paired_decimal_places);
+      return format_currency(
+        num,
+        paired_currency_symbol,
+        paired_decimal_places,
+        get_rounding_mode(paired_field_info, config)
+      );
     };
 
     // Handle paired input change
@@ -9,6 +9,7 @@ import {
   get_base_field_type,
   type FieldRendererProps,
 } from "../../lib/field_registry";
+import { cn } from "../../lib/utils";
 
 // Import all field renderers
 import { TextField } from "./text_field";
@@ -26,6 +27,7 @@ import { ComputedField } from "./computed_field";
 import { StaticTextField } from "./static_text_field";
 import { SummaryRowField } from "./summary_row_field";
 import { MaskedField } from "./masked_field";
+import { AddressField } from "./address_field";
 
 // Legacy imports - kept for backward compatibility
 // @deprecated Use form_field_types.json to define these field types instead
@@ -47,6 +49,7 @@ register_field_renderer("table", TableField);
 register_field_renderer("computed", ComputedField);
 register_field_renderer("static_text", StaticTextField);
 register_field_renderer("summary_row", SummaryRowField);
+register_field_renderer("address", AddressField);
 
 // Register legacy field renderers (deprecated - use form_field_types.json instead)
 // These are kept for backward compatibility but will be removed in future versions
@@ -62,8 +65,45 @@ register_field_renderer("tfn", TfnField);
  *    - If it has display_format, use MaskedField
  *    - Otherwise, delegate to base_type renderer with enhanced props
  * 2. Fall back to directly registered renderers (built-in or legacy)
+ *
+ * Below the field, warning / info messages are shown when there's no error,
+ * and a "Checking…" note while an async validator runs.
  */
 export function FieldRenderer(props: FieldRendererProps) {
+  const { error, warning, config } = props;
+  // Always a fragment, so toggling the notes doesn't remount the field (and lose focus)
+  return (
+    <>
+      {render_field(props)}
+      {warning && !error && (
+        <p
+          className={cn(
+            "cls_warning_message mt-1 text-sm",
+            warning.severity === "info" && "cls_info_message"
+          )}
+          style={{ color: warning.severity === "info" ? config.info_color : config.warning_color }}
+          role="status"
+        >
+          {warning.message}
+        </p>
+      )}
+      {props.is_validating && (
+        <p
+          className="cls_validating_message mt-1 text-sm text-muted-foreground"
+          role="status"
+          aria-live="polite"
+        >
+          Checking…
+        </p>
+      )}
+    </>
+  );
+}
+
+/**
+ * Render the resolved renderer for a field
+ */
+function render_field(props: FieldRendererProps): React.ReactElement {
   const { field, config } = props;
   const field_type = field.field_info.field_type;
 
@@ -83,6 +123,7 @@ export function FieldRenderer(props: FieldRendererProps) {
 
     if (BaseRenderer) {
       // Merge type_definition properties into field_info
+      // The type's min / max win; lengths set on the field win (matching the Controller validation rules)
       const enhanced_props: FieldRendererProps = {
         ...props,
         field: {
@@ -93,6 +134,8 @@ export function FieldRenderer(props: FieldRendererProps) {
             decimal_places: type_definition.decimal_places ?? field.field_info.decimal_places,
             min: type_definition.min ?? field.field_info.min,
             max: type_definition.max ?? field.field_info.max,
+            min_length: field.field_info.min_length ?? type_definition.min_length,
+            max_length: field.field_info.max_length ?? type_definition.max_length,
             currency_symbol: type_definition.prefix || field.field_info.currency_symbol,
           },
         },
@@ -133,6 +176,7 @@ export {
   StaticTextField,
   SummaryRowField,
   MaskedField,
+  AddressField,
   // Legacy exports (deprecated)
   AbnField,
   TfnField,
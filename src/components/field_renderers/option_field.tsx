@@ -2,15 +2,35 @@
 
 import * as React from "react";
 import { Select } from "../ui/select";
+import { Input } from "../ui/input";
 import { Label } from "../ui/label";
 import { FileManagerButton } from "../file_manager_viewer/file_manager_button";
 import { cn, normalize_doc_links } from "../../lib/utils";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import { ReferenceValue } from "./shared/reference_value";
+import { OptionCheckboxGroup, OptionMultiSelect, OptionRadioGroup } from "./shared/option_inputs";
+import { OptionCombobox, OptionValueLabel } from "./shared/option_combobox";
+import {
+  filter_options_by_parent,
+  format_option_value,
+  get_field_options,
+  get_other_option_label,
+  get_other_text,
+  is_multi_option,
+  to_option_values,
+  with_other_text,
+} from "../../lib/options";
+import { get_option_source } from "../../lib/option_sources";
+import { get_parent_value } from "../../lib/dependent_options";
+import { useFieldValues } from "../../hooks/use_field_values";
 
 /**
  * Option Field Renderer
- * Handles select/dropdown input with predefined options
+ * Handles predefined options as a dropdown, radio buttons, checkboxes or a
+ * multi-select (option_display / multiple); multi-value fields store string arrays.
+ * Fields with an option source use a searchable combobox that loads as you scroll.
+ * With depends_on, only the options for the parent field's value are offered.
+ * allow_other adds an "Other" choice with an inline text input for the details.
  */
 export function OptionField({
   field,
@@ -31,19 +51,33 @@ export function OptionField({
   const is_required = field.field_info.required;
   const has_doc_links = !!field.doc_links?.length;
   const is_inline = field.label_position === "inline";
-  const options = field.field_info.options || [];
+  const all_options = get_field_options(field.field_info);
+  const depends_on = field.field_info.depends_on;
+  const parent_values = useFieldValues(depends_on ? [depends_on] : []);
+  const parent_value = get_parent_value(field.field_info, parent_values);
+  // Labels come from every option, so a stale value still reads until it's cleared
+  const options = filter_options_by_parent(all_options, parent_value);
 
   // Check if we're using column-aligned badge layout
   const use_aligned_badge = is_inline && badge_column_width;
 
-  const string_value = value !== undefined && value !== null ? String(value) : "";
+  const option_display = field.field_info.option_display ?? "select";
+  const is_multi = is_multi_option(field.field_info);
+  const option_source = get_option_source(field.field_info);
 
-  // Get display label for view mode
-  const get_display_label = (): string => {
-    const option = options.find((opt) => opt.value === string_value);
-    return option?.label || string_value || "-";
+  const string_value = to_option_values(value)[0] ?? "";
+
+  // Text of the "Other" choice (undefined while it isn't selected)
+  const other_text = field.field_info.allow_other ? get_other_text(value) : undefined;
+
+  // Selections from the inputs; a selected "Other" keeps the text entered so far
+  const handle_selection_change = (selection: string | string[]) => {
+    on_change(field.field_info.allow_other ? with_other_text(selection, other_text) : selection);
   };
 
+  // Get display label(s) for view mode
+  const get_display_label = (): string => format_option_value(all_options, value);
+
   // Render the badge component separately for aligned layout
   const render_badge = () => {
     if (!field.field_info.badge) return null;
@@ -175,13 +209,70 @@ export function OptionField({
             fontSize: config.field_font_size,
           }}
         >
-          {get_display_label()}
+          {option_source ? (
+            <OptionValueLabel
+              source={option_source}
+              field_id={field.id}
+              value={value}
+              parent_value={parent_value}
+            />
+          ) : (
+            get_display_label()
+          )}
         </div>
+      ) : option_source ? (
+        <OptionCombobox
+          id={field.id}
+          source={option_source}
+          value={value}
+          multiple={is_multi}
+          on_change={handle_selection_change}
+          on_blur={on_blur}
+          config={config}
+          disabled={field.field_info.disabled}
+          invalid={!!error}
+          parent_value={parent_value}
+        />
+      ) : is_multi ? (
+        option_display === "checkbox" ? (
+          <OptionCheckboxGroup
+            id={field.id}
+            options={options}
+            value={to_option_values(value)}
+            on_change={handle_selection_change}
+            on_blur={on_blur}
+            config={config}
+            disabled={field.field_info.disabled}
+            invalid={!!error}
+          />
+        ) : (
+          <OptionMultiSelect
+            id={field.id}
+            options={options}
+            value={to_option_values(value)}
+            on_change={handle_selection_change}
+            on_blur={on_blur}
+            config={config}
+            disabled={field.field_info.disabled}
+            invalid={!!error}
+          />
+        )
+      ) : option_display === "radio" ? (
+        <OptionRadioGroup
+          id={field.id}
+          options={options}
+          value={string_value}
+          on_change={handle_selection_change}
+          on_blur={on_blur}
+          config={config}
+          disabled={field.field_info.disabled}
+          invalid={!!error}
+        />
       ) : (
         <Select
           id={field.id}
           value={string_value}
-          onChange={(e) => on_change(e.target.value)}
+          onChange={(e) => handle_selection_change(e.target.value)}
           onBlur={on_blur}
           disabled={field.field_info.disabled}
           className={cn("cls_option_input", error && "cls_input_error border-destructive")}
@@ -196,12 +287,29 @@ export function OptionField({
         >
           <option value="">Select...</option>
           {options.map((option) => (
-            <option key={option.value} value={option.value}>
+            <option key={option.value} value={option.value} disabled={option.disabled} title={option.help}>
               {option.label}
             </option>
           ))}
         </Select>
       )}
+      {!is_view && other_text !== undefined && (
+        <Input
+          id={`${field.id}__other`}
+          value={other_text}
+          onChange={(e) => on_change(with_other_text(is_multi ? to_option_values(value) : string_value, e.target.value))}
+          onBlur={on_blur}
+          placeholder="Please specify"
+          aria-label={`${field.label}: ${get_other_option_label(field.field_info)}`}
+          disabled={field.field_info.disabled}
+          className={cn("cls_option_other_input mt-2", error && "cls_input_error border-destructive")}
+          style={{
+            fontFamily: config.field_font_family,
+            fontSize: config.field_font_size,
+            borderColor: error ? config.error_color : undefined,
+          }}
+        />
+      )}
     </>
   );
 
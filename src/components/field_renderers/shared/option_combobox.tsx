@@ -0,0 +1,261 @@
+"use client";
+
+import * as React from "react";
+import { Checkbox } from "../../ui/checkbox";
+import { cn } from "../../../lib/utils";
+import { format_option_labels, to_option_values, toggle_option_value } from "../../../lib/options";
+import { useOptionLabels, useOptionSource } from "../../../hooks/use_option_source";
+import type { FormConfig, OptionItem, OptionSource } from "../../../lib/types";
+
+export interface OptionComboboxProps {
+  /** Given to the trigger button so labels and focus_field find it */
+  id: string;
+  source: OptionSource;
+  /** A value string, or a string array when multiple */
+  value: unknown;
+  multiple?: boolean;
+  on_change: (value: string | string[]) => void;
+  on_blur?: () => void;
+  config: FormConfig;
+  disabled?: boolean;
+  invalid?: boolean;
+  /** Table cells: shorter trigger */
+  compact?: boolean;
+  /** Value of the field's depends_on parent (dependent lists) */
+  parent_value?: unknown;
+}
+
+/**
+ * Option Combobox
+ * Searchable option list loaded a page at a time from an option source.
+ * The list loads more as it's scrolled to the bottom; arrow keys move the
+ * highlight, Enter selects and Escape closes. Multiple selections stay open.
+ */
+export function OptionCombobox({
+  id,
+  source,
+  value,
+  multiple,
+  on_change,
+  on_blur,
+  config,
+  disabled,
+  invalid,
+  compact,
+  parent_value,
+}: OptionComboboxProps) {
+  const [is_open, set_is_open] = React.useState(false);
+  const [highlighted_index, set_highlighted_index] = React.useState(0);
+  const container_ref = React.useRef<HTMLDivElement>(null);
+  const trigger_ref = React.useRef<HTMLButtonElement>(null);
+  const list_id = `${id}__listbox`;
+
+  const selected = to_option_values(value);
+  const get_label = useOptionLabels(source, id, selected, parent_value);
+  const { options, search, set_search, is_loading, load_more } = useOptionSource(
+    source,
+    id,
+    is_open,
+    parent_value
+  );
+
+  React.useEffect(() => {
+    set_highlighted_index(0);
+  }, [search]);
+
+  React.useEffect(() => {
+    if (!is_open) return;
+    const handle_pointer_down = (event: MouseEvent) => {
+      if (!container_ref.current?.contains(event.target as Node)) {
+        set_is_open(false);
+      }
+    };
+    document.addEventListener("mousedown", handle_pointer_down);
+    return () => document.removeEventListener("mousedown", handle_pointer_down);
+  }, [is_open]);
+
+  const close = () => {
+    set_is_open(false);
+    set_search("");
+    trigger_ref.current?.focus();
+  };
+
+  const select_option = (option: OptionItem) => {
+    if (option.disabled) return;
+    if (multiple) {
+      on_change(toggle_option_value(options, selected, option.value, !selected.includes(option.value)));
+      return;
+    }
+    on_change(option.value);
+    close();
+  };
+
+  const handle_search_key_down = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      set_highlighted_index((index) => Math.min(index + 1, options.length - 1));
+      if (highlighted_index >= options.length - 2) load_more();
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      set_highlighted_index((index) => Math.max(index - 1, 0));
+    } else if (event.key === "Enter") {
+      // Never submit the form from the search box
+      event.preventDefault();
+      const option = options[highlighted_index];
+      if (option) select_option(option);
+    } else if (event.key === "Escape") {
+      event.preventDefault();
+      event.stopPropagation();
+      close();
+    }
+  };
+
+  const handle_list_scroll = (event: React.UIEvent<HTMLUListElement>) => {
+    const list = event.currentTarget;
+    if (list.scrollTop + list.clientHeight >= list.scrollHeight - 24) {
+      load_more();
+    }
+  };
+
+  const summary = selected.length > 0 ? selected.map(get_label).join(", ") : "Select...";
+
+  return (
+    <div
+      ref={container_ref}
+      className="cls_option_combobox relative"
+      onBlur={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          on_blur?.();
+        }
+      }}
+    >
+      <div className="flex items-center gap-1">
+        <button
+          ref={trigger_ref}
+          type="button"
+          id={id}
+          role="combobox"
+          onClick={() => set_is_open((open) => !open)}
+          disabled={disabled}
+          aria-haspopup="listbox"
+          aria-expanded={is_open}
+          aria-controls={is_open ? list_id : undefined}
+          aria-invalid={invalid || undefined}
+          className={cn(
+            "flex w-full min-w-0 items-center justify-between gap-2 rounded-md border border-input bg-background px-3 text-left disabled:cursor-not-allowed disabled:opacity-50",
+            compact ? "h-9 text-sm" : "h-10",
+            invalid && "cls_input_error border-destructive"
+          )}
+          style={{
+            fontFamily: config.field_font_family,
+            fontSize: config.field_font_size,
+            borderColor: invalid ? config.error_color : undefined,
+            backgroundColor: disabled ? config.field_background_color_disabled : config.field_background_color,
+          }}
+        >
+          <span className={cn("truncate", selected.length === 0 && "text-muted-foreground")}>{summary}</span>
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="14"
+            height="14"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            className="shrink-0 opacity-50"
+          >
+            <path d="m7 15 5 5 5-5" />
+            <path d="m7 9 5-5 5 5" />
+          </svg>
+        </button>
+        {selected.length > 0 && !disabled && (
+          <button
+            type="button"
+            onClick={() => on_change(multiple ? [] : "")}
+            className="cls_option_combobox_clear p-1 text-muted-foreground hover:text-foreground"
+            aria-label="Clear selection"
+          >
+            ×
+          </button>
+        )}
+      </div>
+
+      {is_open && (
+        <div className="cls_option_combobox_panel absolute z-50 mt-1 w-full min-w-[220px] rounded-md border bg-background shadow-md">
+          <input
+            type="text"
+            autoFocus
+            value={search}
+            onChange={(event) => set_search(event.target.value)}
+            onKeyDown={handle_search_key_down}
+            placeholder="Search..."
+            aria-controls={list_id}
+            aria-activedescendant={options[highlighted_index] ? `${list_id}__${highlighted_index}` : undefined}
+            className="cls_option_combobox_search w-full border-b bg-transparent px-3 py-2 text-sm outline-none"
+            style={{ fontFamily: config.field_font_family }}
+          />
+          <ul
+            id={list_id}
+            role="listbox"
+            aria-multiselectable={multiple || undefined}
+            className="cls_option_combobox_list max-h-64 overflow-auto p-1"
+            onScroll={handle_list_scroll}
+          >
+            {options.map((option, index) => {
+              const is_selected = selected.includes(option.value);
+              return (
+                <li
+                  key={option.value}
+                  id={`${list_id}__${index}`}
+                  role="option"
+                  aria-selected={is_selected}
+                  aria-disabled={option.disabled || undefined}
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => select_option(option)}
+                  onMouseEnter={() => set_highlighted_index(index)}
+                  className={cn(
+                    "cls_option_combobox_item flex cursor-pointer items-start gap-2 rounded-sm px-2 py-1.5 text-sm",
+                    index === highlighted_index && "bg-accent",
+                    option.disabled && "cursor-not-allowed opacity-50"
+                  )}
+                >
+                  {multiple ? (
+                    <Checkbox checked={is_selected} readOnly tabIndex={-1} className="mt-0.5" />
+                  ) : (
+                    <span className="w-4 shrink-0">{is_selected ? "✓" : ""}</span>
+                  )}
+                  <span className="flex flex-col">
+                    <span>{option.label}</span>
+                    {option.help && <span className="cls_option_help text-xs text-muted-foreground">{option.help}</span>}
+                  </span>
+                </li>
+              );
+            })}
+            {is_loading && <li className="px-2 py-1.5 text-sm text-muted-foreground">Loading...</li>}
+            {!is_loading && options.length === 0 && (
+              <li className="px-2 py-1.5 text-sm text-muted-foreground">No matches</li>
+            )}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export interface OptionValueLabelProps {
+  source: OptionSource;
+  field_id: string;
+  value: unknown;
+  parent_value?: unknown;
+}
+
+/**
+ * Option Value Label
+ * The labels of stored values, resolved from the option source (view mode)
+ */
+export function OptionValueLabel({ source, field_id, value, parent_value }: OptionValueLabelProps) {
+  const get_label = useOptionLabels(source, field_id, to_option_values(value), parent_value);
+  return <>{format_option_labels(value, get_label)}</>;
+}
@@ -0,0 +1,261 @@
+"use client";
+
+import * as React from "react";
+import { Checkbox } from "../../ui/checkbox";
+import { cn } from "../../../lib/utils";
+import { format_option_value, toggle_option_value } from "../../../lib/options";
+import type { FormConfig, OptionItem } from "../../../lib/types";
+
+interface OptionInputBaseProps {
+  /** Given to the first option's input (or the multi-select trigger) so labels and focus_field find it */
+  id: string;
+  options: OptionItem[];
+  config: FormConfig;
+  disabled?: boolean;
+  invalid?: boolean;
+  on_blur?: () => void;
+  /** Table cells: options in a row, help text as a tooltip */
+  compact?: boolean;
+}
+
+export interface OptionRadioGroupProps extends OptionInputBaseProps {
+  value: string;
+  on_change: (value: string) => void;
+}
+
+export interface OptionCheckboxGroupProps extends OptionInputBaseProps {
+  value: string[];
+  on_change: (value: string[]) => void;
+}
+
+/**
+ * Call on_blur once focus leaves the whole group (not when moving between its options)
+ */
+function handle_group_blur(event: React.FocusEvent<HTMLElement>, on_blur?: () => void) {
+  if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+    on_blur?.();
+  }
+}
+
+/**
+ * Option label with its help text (or the help as a tooltip when compact)
+ */
+function OptionLabel({ option, config, compact }: { option: OptionItem; config: FormConfig; compact?: boolean }) {
+  return (
+    <span className="flex flex-col" title={compact ? option.help : undefined}>
+      <span style={{ fontFamily: config.field_font_family, fontSize: config.field_font_size }}>{option.label}</span>
+      {option.help && !compact && (
+        <span className="cls_option_help text-xs text-muted-foreground">{option.help}</span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Get the input ID of an option: the first option carries the field ID
+ */
+function get_option_input_id(id: string, index: number): string {
+  return index === 0 ? id : `${id}__${index}`;
+}
+
+/**
+ * Radio Group
+ * One radio button per option, for short single-choice lists
+ */
+export function OptionRadioGroup({
+  id,
+  options,
+  value,
+  on_change,
+  on_blur,
+  config,
+  disabled,
+  invalid,
+  compact,
+}: OptionRadioGroupProps) {
+  return (
+    <div
+      role="radiogroup"
+      aria-invalid={invalid || undefined}
+      className={cn(
+        "cls_option_radio_group flex",
+        compact ? "flex-row flex-wrap gap-x-3 gap-y-1" : "flex-col gap-2",
+        invalid && "cls_input_error"
+      )}
+      onBlur={(event) => handle_group_blur(event, on_blur)}
+    >
+      {options.map((option, index) => (
+        <label
+          key={option.value}
+          htmlFor={get_option_input_id(id, index)}
+          className={cn(
+            "cls_option_choice flex items-start gap-2",
+            disabled || option.disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"
+          )}
+        >
+          <input
+            type="radio"
+            id={get_option_input_id(id, index)}
+            name={id}
+            value={option.value}
+            checked={value === option.value}
+            disabled={disabled || option.disabled}
+            onChange={() => on_change(option.value)}
+            className="mt-0.5 h-4 w-4 shrink-0"
+            style={{ accentColor: invalid ? config.error_color : undefined }}
+          />
+          <OptionLabel option={option} config={config} compact={compact} />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Checkbox Group
+ * One checkbox per option ("select all that apply"); the value is the checked option values
+ */
+export function OptionCheckboxGroup({
+  id,
+  options,
+  value,
+  on_change,
+  on_blur,
+  config,
+  disabled,
+  invalid,
+  compact,
+}: OptionCheckboxGroupProps) {
+  return (
+    <div
+      role="group"
+      aria-invalid={invalid || undefined}
+      className={cn(
+        "cls_option_checkbox_group flex",
+        compact ? "flex-row flex-wrap gap-x-3 gap-y-1" : "flex-col gap-2",
+        invalid && "cls_input_error"
+      )}
+      onBlur={(event) => handle_group_blur(event, on_blur)}
+    >
+      {options.map((option, index) => (
+        <label
+          key={option.value}
+          htmlFor={get_option_input_id(id, index)}
+          className={cn(
+            "cls_option_choice flex items-start gap-2",
+            disabled || option.disabled ? "cursor-not-allowed opacity-50" : "cursor-pointer"
+          )}
+        >
+          <Checkbox
+            id={get_option_input_id(id, index)}
+            checked={value.includes(option.value)}
+            disabled={disabled || option.disabled}
+            onCheckedChange={(checked) => on_change(toggle_option_value(options, value, option.value, checked))}
+            className="mt-0.5"
+            style={{ accentColor: invalid ? config.error_color : undefined }}
+          />
+          <OptionLabel option={option} config={config} compact={compact} />
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Multi-select
+ * A dropdown-style button listing the selected labels, opening a checkbox list
+ * (closed by clicking outside or pressing Escape)
+ */
+export function OptionMultiSelect({
+  id,
+  options,
+  value,
+  on_change,
+  on_blur,
+  config,
+  disabled,
+  invalid,
+  compact,
+}: OptionCheckboxGroupProps) {
+  const [is_open, set_is_open] = React.useState(false);
+  const container_ref = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    if (!is_open) return;
+    const handle_pointer_down = (event: MouseEvent) => {
+      if (!container_ref.current?.contains(event.target as Node)) {
+        set_is_open(false);
+      }
+    };
+    document.addEventListener("mousedown", handle_pointer_down);
+    return () => document.removeEventListener("mousedown", handle_pointer_down);
+  }, [is_open]);
+
+  const summary = value.length > 0 ? format_option_value(options, value) : "Select...";
+
+  return (
+    <div
+      ref={container_ref}
+      className="cls_option_multi_select relative"
+      onBlur={(event) => handle_group_blur(event, on_blur)}
+      onKeyDown={(event) => {
+        if (event.key === "Escape" && is_open) {
+          event.stopPropagation();
+          set_is_open(false);
+        }
+      }}
+    >
+      <button
+        type="button"
+        id={id}
+        onClick={() => set_is_open((open) => !open)}
+        disabled={disabled}
+        aria-haspopup="listbox"
+        aria-expanded={is_open}
+        aria-invalid={invalid || undefined}
+        className={cn(
+          "flex w-full items-center justify-between gap-2 rounded-md border border-input bg-background px-3 text-left disabled:cursor-not-allowed disabled:opacity-50",
+          compact ? "h-9 text-sm" : "h-10",
+          invalid && "cls_input_error border-destructive"
+        )}
+        style={{
+          fontFamily: config.field_font_family,
+          fontSize: config.field_font_size,
+          borderColor: invalid ? config.error_color : undefined,
+          backgroundColor: disabled ? config.field_background_color_disabled : config.field_background_color,
+        }}
+      >
+        <span className={cn("truncate", value.length === 0 && "text-muted-foreground")}>{summary}</span>
+        <svg
+          xmlns="http://www.w3.org/2000/svg"
+          width="14"
+          height="14"
+          viewBox="0 0 24 24"
+          fill="none"
+          stroke="currentColor"
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+          className="shrink-0 opacity-50"
+        >
+          <path d="m6 9 6 6 6-6" />
+        </svg>
+      </button>
+      {is_open && (
+        <div
+          role="listbox"
+          aria-multiselectable="true"
+          className="cls_option_multi_select_list absolute z-50 mt-1 max-h-64 w-full min-w-[180px] overflow-auto rounded-md border bg-background p-2 shadow-md"
+        >
+          <OptionCheckboxGroup
+            id={`${id}__list`}
+            options={options}
+            value={value}
+            on_change={on_change}
+            config={config}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import * as React from "react";
 import { FaFileAlt, FaRegFileAlt } from "react-icons/fa";
 import { Label } from "../ui/label";
 import { cn, format_currency } from "../../lib/utils";
+import { get_rounding_mode } from "../../lib/decimal";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import type { StyleVariant } from "../../lib/types";
 
@@ -40,7 +41,7 @@ export function SummaryRowField({
     const decimal_places = field.field_info.decimal_places ?? config.default_decimal_places;
     const currency_symbol = field.field_info.currency_symbol ?? config.default_currency_symbol;
 
-    return format_currency(num, currency_symbol, decimal_places);
+    return format_currency(num, currency_symbol, decimal_places, get_rounding_mode(field.field_info, config));
   };
 
   const row_indent = style_config?.indent || "0px";
@@ -3,11 +3,21 @@
 import * as React from "react";
 import { Input } from "../ui/input";
 import { Label } from "../ui/label";
-import { cn, normalize_doc_links } from "../../lib/utils";
+import { cn, deep_equal, format_currency, normalize_doc_links } from "../../lib/utils";
+import { apply_row_formulas, apply_table_formulas, is_computed_column } from "../../lib/table_formulas";
+import { decimal_sum, format_decimal, get_rounding_mode } from "../../lib/decimal";
+import { get_table_cell_errors } from "../../lib/validation";
 import { FileManagerButton } from "../file_manager_viewer";
 import type { FieldRendererProps } from "../../lib/field_registry";
 import type { TableColumn, DocLink } from "../../lib/types";
 import { ReferenceValue } from "./shared/reference_value";
+import { OptionCheckboxGroup, OptionMultiSelect, OptionRadioGroup } from "./shared/option_inputs";
+import { OptionCombobox, OptionValueLabel } from "./shared/option_combobox";
+import { filter_options_by_parent, format_option_value, is_multi_option, to_option_values } from "../../lib/options";
+import { get_option_source } from "../../lib/option_sources";
+import { check_dependent_row_cells, get_parent_value } from "../../lib/dependent_options";
+import { useFieldValues } from "../../hooks/use_field_values";
+import { useHazoServices } from "../../context";
 
 /**
  * Table row data can optionally include doc_links and per-cell reference values
@@ -18,9 +28,21 @@ interface TableRowData extends Record<string, unknown> {
   _reference_values?: Record<string, string>;
 }
 
+/**
+ * Check if a column holds numbers (right-aligned, subtotal-friendly)
+ */
+function is_numeric_column(column: TableColumn): boolean {
+  const field_type = column.field_info.field_type;
+  return field_type === "number" || field_type === "currency" || is_computed_column(column);
+}
+
 /**
  * Table Field Renderer
  * Handles array/table data with dynamic rows
+ * Columns with a computed_formula are read-only and calculated per row
+ * Option columns with depends_on offer the options for a sibling cell (or form field)
+ * and clear cells the new parent value no longer offers
+ * Once the table fails validation, invalid cells are highlighted with inline messages
  */
 export function TableField({
   field,
@@ -41,12 +63,63 @@ export function TableField({
   const max_rows = field.field_info.table_max_rows ?? Infinity;
 
   // Ensure value is an array
-  const rows: TableRowData[] = Array.isArray(value)
+  const raw_rows: TableRowData[] = Array.isArray(value)
     ? value
     : value
     ? [value as TableRowData]
     : [];
 
+  // Rows with computed columns recalculated from sibling cells
+  const rows = React.useMemo(
+    () => apply_table_formulas(raw_rows, columns, config.rounding_mode),
+    [raw_rows, columns, config.rounding_mode]
+  );
+
+  // Write computed cells back when loaded values are missing or stale, so
+  // form-level formulas (e.g. TABLE_SUM) and submitted values see them
+  const has_stale_computed_cells =
+    !is_view &&
+    rows !== raw_rows &&
+    rows.some((row, i) =>
+      columns.some((col) => is_computed_column(col) && row[col.id] !== raw_rows[i][col.id])
+    );
+  React.useEffect(() => {
+    if (has_stale_computed_cells) {
+      on_change(rows);
+    }
+  }, [has_stale_computed_cells, rows, on_change]);
+
+  // Form fields that option columns depend on (sibling column parents are read from the row)
+  const external_parent_ids = columns
+    .map((col) => col.field_info.depends_on)
+    .filter((id): id is string => !!id && !columns.some((col) => col.id === id));
+  const parent_values = useFieldValues(external_parent_ids);
+  const services = useHazoServices();
+
+  // Latest rows, for dependent cell checks that finish after further edits
+  const rows_ref = React.useRef(rows);
+  rows_ref.current = rows;
+
+  // Running dependent cell checks, keyed by the changed cell ("<row_index>:<column_id>")
+  // A check still running when that cell changes again is aborted
+  const check_controllers_ref = React.useRef(new Map<string, AbortController>());
+  React.useEffect(() => {
+    const controllers = check_controllers_ref.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  // Invalid cells, keyed by "<row_index>:<column_id>"
+  // Only shown once the field has an error, and re-checked as cells are edited
+  const cell_errors = React.useMemo(() => {
+    const result = new Map<string, string>();
+    if (error && !is_view) {
+      get_table_cell_errors(field, rows, config).forEach((cell) => {
+        result.set(`${cell.row_index}:${cell.column_id}`, cell.message);
+      });
+    }
+    return result;
+  }, [error, is_view, field, rows, config]);
+
   // Check if any row has doc_links
   const has_row_doc_links = rows.some((row) => row.doc_links?.length);
 
@@ -58,11 +131,13 @@ export function TableField({
     const result: Record<string, number> = {};
     columns.forEach((col) => {
       if (col.subtotal) {
-        result[col.id] = rows.reduce((sum, row) => {
-          const val = row[col.id];
-          const num = typeof val === "number" ? val : parseFloat(String(val));
-          return sum + (isNaN(num) ? 0 : num);
-        }, 0);
+        result[col.id] = decimal_sum(
+          rows.map((row) => {
+            const val = row[col.id];
+            const num = typeof val === "number" ? val : parseFloat(String(val));
+            return isNaN(num) ? 0 : num;
+          })
+        );
       }
     });
     return result;
@@ -80,7 +155,7 @@ export function TableField({
         "";
       new_row[col.id] = default_val;
     });
-    on_change([...rows, new_row]);
+    on_change([...rows, apply_row_formulas(new_row, columns, config.rounding_mode)]);
   };
 
   // Remove a row
@@ -98,11 +173,63 @@ export function TableField({
   ) => {
     const new_rows = rows.map((row, i) => {
       if (i === row_index) {
-        return { ...row, [column_id]: cell_value };
+        return apply_row_formulas({ ...row, [column_id]: cell_value }, columns, config.rounding_mode);
       }
       return row;
     });
     on_change(new_rows);
+
+    // Clear cells in the row that depend on this one and are no longer offered
+    if (columns.some((col) => col.field_info.depends_on === column_id)) {
+      const changed_row = new_rows[row_index];
+      const cell_key = `${row_index}:${column_id}`;
+      check_controllers_ref.current.get(cell_key)?.abort();
+      const controller = new AbortController();
+      check_controllers_ref.current.set(cell_key, controller);
+      check_dependent_row_cells(columns, changed_row, column_id, {
+        field_id: field.id,
+        form_values: parent_values,
+        services,
+        signal: controller.signal,
+      }).then((checked_row) => {
+        if (check_controllers_ref.current.get(cell_key) === controller) {
+          check_controllers_ref.current.delete(cell_key);
+        }
+        const latest_rows = rows_ref.current;
+        // Leave it if the check was superseded or the row was edited again while checking
+        if (
+          controller.signal.aborted ||
+          checked_row === changed_row ||
+          !deep_equal(latest_rows[row_index], changed_row)
+        ) {
+          return;
+        }
+        on_change(
+          latest_rows.map((row, i) =>
+            i === row_index ? apply_row_formulas(checked_row, columns, config.rounding_mode) : row
+          )
+        );
+      });
+    }
+  };
+
+  // Format a number with grouping, rounded with the column's rounding mode
+  const format_column_number = (column: TableColumn, num: number): string => {
+    const decimal_places = column.field_info.decimal_places ?? 2;
+    const rounding_mode = get_rounding_mode(column.field_info, config);
+    if (column.field_info.currency_symbol) {
+      return format_currency(num, column.field_info.currency_symbol, decimal_places, rounding_mode);
+    }
+    return Number(format_decimal(num, decimal_places, rounding_mode)).toLocaleString(undefined, {
+      minimumFractionDigits: decimal_places,
+      maximumFractionDigits: decimal_places,
+    });
+  };
+
+  // Format a computed cell the same way as the subtotal footer
+  const format_computed_cell = (column: TableColumn, cell_value: unknown): string => {
+    if (typeof cell_value !== "number") return "-";
+    return format_column_number(column, cell_value);
   };
 
   // Render cell value based on column type
@@ -114,8 +241,26 @@ export function TableField({
     const cell_value = row[column.id];
     const string_value =
       cell_value !== undefined && cell_value !== null ? String(cell_value) : "";
+    const parent_value = get_parent_value(column.field_info, { ...parent_values, ...row });
+
+    // Computed columns are read-only in both modes
+    if (is_computed_column(column)) {
+      return (
+        <span
+          className="cls_computed_cell flex items-center justify-end h-9 px-3 font-medium"
+          style={{
+            fontFamily: config.field_font_family,
+            fontSize: config.field_font_size,
+          }}
+        >
+          {format_computed_cell(column, cell_value)}
+        </span>
+      );
+    }
 
     if (is_view) {
+      const view_option_source =
+        column.field_info.field_type === "option" ? get_option_source(column.field_info) : undefined;
       return (
         <span
           className="flex items-center gap-1"
@@ -124,7 +269,18 @@ export function TableField({
             fontSize: config.field_font_size,
           }}
         >
-          {string_value || "-"}
+          {view_option_source ? (
+            <OptionValueLabel
+              source={view_option_source}
+              field_id={`${field.id}.${row_index}.${column.id}`}
+              value={cell_value}
+              parent_value={parent_value}
+            />
+          ) : column.field_info.field_type === "option" ? (
+            format_option_value(column.field_info.options || [], cell_value)
+          ) : (
+            string_value || "-"
+          )}
           {column.field_info.badge && (
             <span
               className="cls_cell_badge inline-flex items-center justify-center px-1.5 py-0.5 text-xs font-semibold rounded"
@@ -142,23 +298,77 @@ export function TableField({
     }
 
     const field_type = column.field_info.field_type;
+    const has_cell_error = cell_errors.has(`${row_index}:${column.id}`);
 
     if (field_type === "option") {
-      const options = column.field_info.options || [];
+      const options = filter_options_by_parent(column.field_info.options || [], parent_value);
+      const cell_id = `${field.id}.${row_index}.${column.id}`;
+      const set_cell_value = (next_value: unknown) => handle_cell_change(row_index, column.id, next_value);
+      const option_source = get_option_source(column.field_info);
+      if (option_source) {
+        return (
+          <OptionCombobox
+            id={cell_id}
+            source={option_source}
+            value={cell_value}
+            multiple={is_multi_option(column.field_info)}
+            on_change={set_cell_value}
+            config={config}
+            disabled={column.field_info.disabled}
+            invalid={has_cell_error}
+            compact
+            parent_value={parent_value}
+          />
+        );
+      }
+      if (is_multi_option(column.field_info)) {
+        const OptionInput = column.field_info.option_display === "checkbox" ? OptionCheckboxGroup : OptionMultiSelect;
+        return (
+          <OptionInput
+            id={cell_id}
+            options={options}
+            value={to_option_values(cell_value)}
+            on_change={set_cell_value}
+            config={config}
+            disabled={column.field_info.disabled}
+            invalid={has_cell_error}
+            compact
+          />
+        );
+      }
+      if (column.field_info.option_display === "radio") {
+        return (
+          <OptionRadioGroup
+            id={cell_id}
+            options={options}
+            value={string_value}
+            on_change={set_cell_value}
+            config={config}
+            disabled={column.field_info.disabled}
+            invalid={has_cell_error}
+            compact
+          />
+        );
+      }
       return (
         <select
           value={string_value}
           onChange={(e) => handle_cell_change(row_index, column.id, e.target.value)}
           disabled={column.field_info.disabled}
-          className="h-9 w-full rounded-md border border-input bg-background px-2 text-sm"
+          aria-invalid={has_cell_error || undefined}
+          className={cn(
+            "h-9 w-full rounded-md border border-input bg-background px-2 text-sm",
+            has_cell_error && "cls_input_error border-destructive"
+          )}
           style={{
             fontFamily: config.field_font_family,
             fontSize: config.field_font_size,
+            borderColor: has_cell_error ? config.error_color : undefined,
           }}
         >
           <option value="">Select...</option>
           {options.map((opt) => (
-            <option key={opt.value} value={opt.value}>
+            <option key={opt.value} value={opt.value} disabled={opt.disabled} title={opt.help}>
               {opt.label}
             </option>
           ))}
@@ -178,10 +388,12 @@ export function TableField({
           }}
           disabled={column.field_info.disabled}
           placeholder={column.field_info.placeholder}
-          className="h-9 text-right"
+          aria-invalid={has_cell_error || undefined}
+          className={cn("h-9 text-right", has_cell_error && "cls_input_error border-destructive")}
           style={{
             fontFamily: config.field_font_family,
             fontSize: config.field_font_size,
+            borderColor: has_cell_error ? config.error_color : undefined,
           }}
         />
       );
@@ -195,10 +407,12 @@ export function TableField({
         onChange={(e) => handle_cell_change(row_index, column.id, e.target.value)}
         disabled={column.field_info.disabled}
         placeholder={column.field_info.placeholder}
-        className="h-9"
+        aria-invalid={has_cell_error || undefined}
+        className={cn("h-9", has_cell_error && "cls_input_error border-destructive")}
         style={{
           fontFamily: config.field_font_family,
           fontSize: config.field_font_size,
+          borderColor: has_cell_error ? config.error_color : undefined,
         }}
       />
     );
@@ -272,7 +486,7 @@ export function TableField({
               style={{ background: config.section_header_background }}
             >
               {columns.map((col) => {
-                const is_numeric = col.field_info.field_type === "number" || col.field_info.field_type === "currency";
+                const is_numeric = is_numeric_column(col);
                 return (
                   <th
                     key={col.id}
@@ -315,9 +529,18 @@ export function TableField({
                 <tr key={row_index} className="border-b last:border-b-0">
                   {columns.map((col) => {
                     const ref_val = row._reference_values?.[col.id] ?? col.reference_value;
+                    const cell_error = cell_errors.get(`${row_index}:${col.id}`);
                     return (
                       <td key={col.id} className="px-3 py-2 align-top">
                         {render_cell(row, row_index, col)}
+                        {cell_error && (
+                          <p
+                            className="cls_cell_error_message mt-1 text-xs"
+                            style={{ color: config.error_color }}
+                          >
+                            {cell_error}
+                          </p>
+                        )}
                         {ref_val && <ReferenceValue value={ref_val} />}
                       </td>
                     );
@@ -373,7 +596,7 @@ export function TableField({
                 style={{ background: "#e5e7eb" }}
               >
                 {columns.map((col, col_index) => {
-                  const is_numeric = col.field_info.field_type === "number" || col.field_info.field_type === "currency";
+                  const is_numeric = is_numeric_column(col);
                   return (
                     <td
                       key={col.id}
@@ -388,10 +611,7 @@ export function TableField({
                       }}
                     >
                       {col.subtotal ? (
-                        subtotals[col.id]?.toLocaleString(undefined, {
-                          minimumFractionDigits: col.field_info.decimal_places ?? 2,
-                          maximumFractionDigits: col.field_info.decimal_places ?? 2,
-                        })
+                        format_column_number(col, subtotals[col.id] ?? 0)
                       ) : col_index === 0 ? (
                         "Total"
                       ) : (
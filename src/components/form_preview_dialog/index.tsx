@@ -10,6 +10,7 @@ import {
 } from "../ui/dialog";
 import { Button } from "../ui/button";
 import { cn } from "../../lib/utils";
+import { get_value_at_path } from "../../lib/value_paths";
 import type { FormSchema, FormValues, FormConfig, PartialFormConfig } from "../../lib/types";
 
 export interface FormPreviewDialogProps {
@@ -201,8 +202,8 @@ export function FormPreviewDialog({
                                   {field.label}:
                                 </span>
                                 <span className="cls_preview_field_value text-sm font-medium">
-                                  {values[field.id] !== undefined
-                                    ? String(values[field.id])
+                                  {get_value_at_path(values, field.id) !== undefined
+                                    ? String(get_value_at_path(values, field.id))
                                     : "-"}
                                 </span>
                               </div>
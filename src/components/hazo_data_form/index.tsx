@@ -1,21 +1,55 @@
 "use client";
 
 import * as React from "react";
-import { useForm, FormProvider } from "react-hook-form";
+import { useForm, useWatch, FormProvider, type FieldErrors } from "react-hook-form";
 import { SectionRenderer } from "../section_renderer";
+import { ValidationSummary } from "../validation_summary";
+import { WizardReview, WizardStepIndicator } from "../wizard";
 import { DocPanel } from "../doc_panel";
 import { FileManager, FileManagerDialog, doc_link_to_file_item } from "../file_manager_viewer";
 import type { FileItem } from "../file_manager_viewer/types";
 import { Button } from "../ui/button";
+import { Tabs, TabsList, TabsTrigger, TabsContent } from "../ui/tabs";
 import {
   ResizablePanelGroup,
   ResizablePanel,
   ResizableHandle,
 } from "../ui/resizable";
 import { useFormConfig } from "../../hooks/use_form_config";
-import { HazoServicesProvider } from "../../context";
-import { cn, evaluate_formula, get_uploads_key, get_field_uploads, uploads_to_doc_links, sanitize_filename, generate_file_id } from "../../lib/utils";
-import type { DocLink, FormValues, FormField, FileUploadResult } from "../../lib/types";
+import { useAsyncValidation } from "../../hooks/use_async_validation";
+import { useDependentOptions } from "../../hooks/use_dependent_options";
+import { HazoServicesProvider, useHazoServices } from "../../context";
+import { cn, deep_merge, evaluate_formula, get_uploads_key, get_field_uploads, uploads_to_doc_links, sanitize_filename, generate_file_id } from "../../lib/utils";
+import { get_condition_field_ids, get_hidden_field_ids, is_item_visible, omit_hidden_values } from "../../lib/conditions";
+import { build_computed_graph, get_affected_computed_fields, format_cycle_path, type ComputedGraph } from "../../lib/computed_graph";
+import { get_rounding_mode, round_decimal } from "../../lib/decimal";
+import { count_errors_by_section, find_field_location, get_first_error_field_id } from "../../lib/error_summary";
+import {
+  get_default_instances,
+  get_instance_field_id,
+  get_instances,
+  get_repeatable_sub_section_id,
+  parse_instance_field_id,
+} from "../../lib/repeatable_sections";
+import { get_value_at_path, set_value_at_path } from "../../lib/value_paths";
+import {
+  WIZARD_REVIEW_STEP_ID,
+  find_field_step_index,
+  get_completed_step_ids,
+  get_step_field_ids,
+  get_wizard_progress,
+  resolve_wizard_steps,
+} from "../../lib/wizard";
+import {
+  evaluate_validation_rules,
+  get_complete_section_names,
+  get_rule_dependents,
+  get_validation_warnings,
+  has_validation_rules,
+  split_validation_result,
+  validate_section_values,
+} from "../../lib/validation";
+import type { DocLink, FormValues, FormField, FormErrors, FormWarnings, FileUploadResult, FormSection, SubSection } from "../../lib/types";
 import type { HazoDataFormProps } from "./types";
 
 // Import field renderers to register them - use named import to prevent tree-shaking
@@ -36,6 +70,94 @@ function parse_width_to_percent(width_str: string): number {
   return Math.min(80, Math.max(20, (px_value / 1400) * 100));
 }
 
+/**
+ * Computed fields of a repeatable sub-section, with their dependency graph
+ * (field IDs are the schema IDs, not instance paths)
+ */
+interface InstanceComputedFields {
+  sub_section: SubSection;
+  fields_by_id: Map<string, FormField>;
+  graph: ComputedGraph;
+}
+
+/**
+ * Get the computed fields in a field list: the "computed" field type and any
+ * field (or paired_field) with a computed_formula (e.g., currency fields)
+ */
+function get_computed_fields(fields: FormField[]): FormField[] {
+  const result: FormField[] = [];
+  fields.forEach((field) => {
+    // Check main field
+    if (
+      field.field_info.field_type === "computed" ||
+      field.field_info.computed_formula
+    ) {
+      result.push(field);
+    }
+    // Check paired_field for computed_formula
+    if (field.paired_field?.field_info?.computed_formula) {
+      // Create a synthetic FormField from the paired_field
+      const paired_as_field: FormField = {
+        id: field.paired_field.id,
+        label: field.label, // Use parent label for reference
+        field_info: field.paired_field.field_info,
+      };
+      result.push(paired_as_field);
+    }
+  });
+  return result;
+}
+
+/**
+ * Check two warning maps hold the same messages
+ */
+function same_warnings(a: FormWarnings, b: FormWarnings): boolean {
+  const a_keys = Object.keys(a);
+  if (a_keys.length !== Object.keys(b).length) return false;
+  return a_keys.every(
+    (key) => b[key]?.message === a[key].message && b[key]?.severity === a[key].severity
+  );
+}
+
+/**
+ * Flatten react-hook-form errors to field ID -> message
+ * Repeatable sub-section errors are nested: instance fields are keyed by path
+ * ("dependants.0.name") and the instance count (the array's root error) by sub-section ID
+ */
+function get_error_messages(errors: FieldErrors<FormValues>, prefix = ""): FormErrors {
+  const messages: FormErrors = {};
+  Object.entries(errors).forEach(([key, error]) => {
+    if (!error || typeof error !== "object") return;
+    const path = key === "root" && prefix ? prefix : prefix ? `${prefix}.${key}` : key;
+    const message = (error as { message?: unknown }).message;
+    if (typeof message === "string" && message) {
+      messages[path] = message;
+    } else if (!("type" in error)) {
+      Object.assign(messages, get_error_messages(error as FieldErrors<FormValues>, path));
+    }
+  });
+  return messages;
+}
+
+/**
+ * Scroll a field's wrapper into view and focus its input
+ */
+function focus_field_element(container: HTMLElement | null, field_id: string): void {
+  if (!container) return;
+  const escaped_id = CSS.escape(field_id);
+  const wrapper = container.querySelector<HTMLElement>(
+    `[data-field-id="${escaped_id}"], [data-paired-field-id="${escaped_id}"]`
+  );
+  if (!wrapper) return;
+  wrapper.scrollIntoView({ behavior: "smooth", block: "center" });
+  const input =
+    wrapper.querySelector<HTMLElement>(`[id="${escaped_id}"]`) ??
+    wrapper.querySelector<HTMLElement>(
+      "input:not([type=hidden]), select, textarea, button, [tabindex]:not([tabindex='-1'])"
+    );
+  input?.focus({ preventScroll: true });
+}
+
 /**
  * HazoDataForm Component
  * Main form component that renders dynamic forms from JSON schema
@@ -67,9 +189,25 @@ export function HazoDataForm({
   show_sub_section_headers = true,
   collapsible_sections = false,
   collapsed_sections = [],
+  validate_collapsed_sections = false,
+  show_validation_summary = false,
+  validation_summary_position = "top",
+  validation_summary_title,
+  scroll_to_first_error = true,
   on_form_ready,
   show_submit_button,
   submit_button_text = "Submit",
+  keep_hidden_values = false,
+  layout = "scroll",
+  wizard_steps,
+  wizard_show_review = false,
+  wizard_review_title,
+  wizard_step,
+  default_wizard_step = 0,
+  on_wizard_step_change,
+  active_tab,
+  default_active_tab,
+  on_tab_change,
   enable_file_upload = false,
   on_file_view,
   on_file_popout,
@@ -96,6 +234,7 @@ export function HazoDataForm({
 
   // Extract default values from schema (including paired_field values)
   // Priority: field.value > field.default_value > field.field_info.default_value
+  // Dotted field IDs ("spouse.income.salary") produce nested objects
   const schema_defaults = React.useMemo(() => {
     const defaults: FormValues = {};
     const extract_field_values = (fields: FormField[]) => {
@@ -107,7 +246,7 @@ export function HazoDataForm({
           field.field_info.default_value;
 
         if (field_value !== undefined) {
-          defaults[field.id] = field_value;
+          set_value_at_path(defaults, field.id, field_value);
         }
 
         // Also extract paired_field value if present
@@ -119,7 +258,7 @@ export function HazoDataForm({
             field.paired_field.field_info?.default_value;
 
           if (paired_value !== undefined) {
-            defaults[field.paired_field.id] = paired_value;
+            set_value_at_path(defaults, field.paired_field.id, paired_value);
           }
         }
       });
@@ -127,6 +266,11 @@ export function HazoDataForm({
 
     schema.forEach((section) => {
       section.sub_sections.forEach((sub_section) => {
+        // Repeatable sub-sections start with min_instances instances of their field defaults
+        if (sub_section.repeatable) {
+          set_value_at_path(defaults, sub_section.sub_section_id, get_default_instances(sub_section));
+          return;
+        }
         extract_field_values(sub_section.field_group.fields);
       });
     });
@@ -136,11 +280,16 @@ export function HazoDataForm({
 
   // Initialize react-hook-form
   const form_methods = useForm<FormValues>({
-    defaultValues: { ...schema_defaults, ...default_values },
+    defaultValues: deep_merge(schema_defaults, default_values ?? {}),
     values: values,
     mode: validate_on_change ? "onChange" : validate_on_blur ? "onBlur" : "onSubmit",
   });
 
+  // Subscribe to fields referenced by show_if / hide_if so visibility
+  // re-evaluates when they change (other edits don't re-render the form)
+  const condition_field_ids = React.useMemo(() => get_condition_field_ids(schema), [schema]);
+  useWatch({ control: form_methods.control, name: condition_field_ids });
+
   // Provide form methods to parent if requested
   React.useEffect(() => {
     if (on_form_ready) {
@@ -151,69 +300,340 @@ export function HazoDataForm({
   // Get all computed fields from schema
   // Include both "computed" field type AND any field with computed_formula (e.g., currency fields)
   // Also include paired_fields that have computed_formula
+  // Repeatable sub-sections are left out: their fields only exist per instance
   const computed_fields = React.useMemo(() => {
     const fields: FormField[] = [];
     schema.forEach((section) => {
       section.sub_sections.forEach((sub_section) => {
-        sub_section.field_group.fields.forEach((field) => {
-          // Check main field
-          if (
-            field.field_info.field_type === "computed" ||
-            field.field_info.computed_formula
-          ) {
-            fields.push(field);
-          }
-          // Check paired_field for computed_formula
-          if (field.paired_field?.field_info?.computed_formula) {
-            // Create a synthetic FormField from the paired_field
-            const paired_as_field: FormField = {
-              id: field.paired_field.id,
-              label: field.label, // Use parent label for reference
-              field_info: field.paired_field.field_info,
-            };
-            fields.push(paired_as_field);
-          }
-        });
+        if (sub_section.repeatable) return;
+        fields.push(...get_computed_fields(sub_section.field_group.fields));
       });
     });
     return fields;
   }, [schema]);
 
-  // Get set of computed field IDs for quick lookup
-  const computed_field_ids = React.useMemo(() => {
-    return new Set(computed_fields.map((f) => f.id));
+  // Computed fields of repeatable sub-sections, evaluated per instance with
+  // field names resolving to the instance's values
+  const instance_computed = React.useMemo(() => {
+    const result: InstanceComputedFields[] = [];
+    schema.forEach((section) => {
+      section.sub_sections.forEach((sub_section) => {
+        if (!sub_section.repeatable) return;
+        const fields = get_computed_fields(sub_section.field_group.fields);
+        if (fields.length === 0) return;
+        const graph = build_computed_graph(fields);
+        graph.cycles.forEach((path, field_id) => {
+          console.warn(
+            `[HazoDataForm] Circular reference in ${sub_section.sub_section_id}.${field_id}: ${format_cycle_path(path)}`
+          );
+        });
+        result.push({ sub_section, fields_by_id: new Map(fields.map((f) => [f.id, f])), graph });
+      });
+    });
+    return result;
+  }, [schema]);
+
+  // Get computed fields by ID for quick lookup
+  const computed_fields_by_id = React.useMemo(() => {
+    return new Map(computed_fields.map((f) => [f.id, f]));
   }, [computed_fields]);
 
+  // Dependency graph: evaluation order, reverse edges and circular references
+  const computed_graph = React.useMemo(() => build_computed_graph(computed_fields), [computed_fields]);
+
+  // Circular references are surfaced as errors on the computed fields involved
+  const circular_errors = React.useMemo(() => {
+    const result: FormErrors = {};
+    computed_graph.cycles.forEach((path, field_id) => {
+      result[field_id] = `Circular reference: ${format_cycle_path(path)}`;
+    });
+    return result;
+  }, [computed_graph]);
+
+  // Errors passed to renderers: circular references first, external errors take precedence
+  const field_errors = React.useMemo(() => {
+    if (Object.keys(circular_errors).length === 0) return external_errors;
+    return { ...circular_errors, ...external_errors };
+  }, [circular_errors, external_errors]);
+
+  // Cross-field validation rules (section validation_rules), evaluated by the
+  // target field's Controller so failures surface like built-in errors
+  const rule_dependents = React.useMemo(() => get_rule_dependents(schema), [schema]);
+  const get_rule_error = React.useMemo(() => {
+    if (!has_validation_rules(schema)) return undefined;
+    return (field_id: string, values: FormValues) =>
+      evaluate_validation_rules(schema, { ...schema_defaults, ...values }, [field_id])[field_id];
+  }, [schema, schema_defaults]);
+
+  // Collapsed sections are controlled here so the validation summary can expand them
+  const [collapsed_section_names, set_collapsed_section_names] = React.useState<string[]>(collapsed_sections);
+  const set_section_collapsed = React.useCallback((section_name: string, collapsed: boolean) => {
+    set_collapsed_section_names((names) => {
+      if (names.includes(section_name) === collapsed) return names;
+      return collapsed ? [...names, section_name] : names.filter((name) => name !== section_name);
+    });
+  }, []);
+
+  // Wizard layout: the current step is controlled by wizard_step when provided.
+  // Steps completed with Next are kept here; steps before the current one also
+  // count as completed (get_completed_step_ids), e.g. when restoring a persisted step
+  const is_wizard = layout === "wizard";
+  const [internal_wizard_step, set_internal_wizard_step] = React.useState(default_wizard_step);
+  const [completed_step_ids, set_completed_step_ids] = React.useState<string[]>([]);
+  const go_to_step = React.useCallback(
+    (step_index: number, completed = completed_step_ids) => {
+      const steps = resolve_wizard_steps(schema, form_methods.getValues(), wizard_steps);
+      // Keep the steps visited so far once the user goes back
+      const visited = get_completed_step_ids(steps, wizard_step ?? internal_wizard_step, completed);
+      set_completed_step_ids(visited);
+      set_internal_wizard_step(step_index);
+      on_wizard_step_change?.(get_wizard_progress(steps, step_index, wizard_show_review, visited));
+    },
+    [
+      schema,
+      form_methods,
+      wizard_steps,
+      wizard_step,
+      internal_wizard_step,
+      wizard_show_review,
+      completed_step_ids,
+      on_wizard_step_change,
+    ]
+  );
+
+  // Tabs layout: the active tab (a section_name) is controlled by active_tab when provided
+  const is_tabs = layout === "tabs";
+  const [internal_active_tab, set_internal_active_tab] = React.useState(default_active_tab);
+  const select_tab = React.useCallback(
+    (section_name: string) => {
+      set_internal_active_tab(section_name);
+      on_tab_change?.(section_name);
+    },
+    [on_tab_change]
+  );
+
+  // Focus a field: show its step or tab, expand its section, then scroll to and focus it once the section has rendered
+  const form_ref = React.useRef<HTMLFormElement>(null);
+  // Pass validate to re-check the field once it's mounted (errors found while its section was collapsed)
+  const [focus_request, set_focus_request] = React.useState<{ field_id: string; validate?: boolean } | null>(null);
+  const focus_field = React.useCallback(
+    (field_id: string, validate?: boolean) => {
+      const location = find_field_location(schema, field_id);
+      if (location) {
+        set_section_collapsed(location.section_name, false);
+        if (is_tabs && location.section_name !== (active_tab ?? internal_active_tab)) {
+          select_tab(location.section_name);
+        }
+      }
+      if (is_wizard) {
+        const steps = resolve_wizard_steps(schema, form_methods.getValues(), wizard_steps);
+        const step_index = find_field_step_index(schema, steps, field_id);
+        if (step_index >= 0 && step_index !== (wizard_step ?? internal_wizard_step)) {
+          go_to_step(step_index);
+        }
+      }
+      set_focus_request({ field_id, validate });
+    },
+    [
+      schema,
+      set_section_collapsed,
+      is_tabs,
+      active_tab,
+      internal_active_tab,
+      select_tab,
+      is_wizard,
+      form_methods,
+      wizard_steps,
+      wizard_step,
+      internal_wizard_step,
+      go_to_step,
+    ]
+  );
+  React.useEffect(() => {
+    if (focus_request) {
+      if (focus_request.validate) {
+        void form_methods.trigger(focus_request.field_id);
+      }
+      focus_field_element(form_ref.current, focus_request.field_id);
+    }
+  }, [focus_request, form_methods]);
+
+  // After a failed submit, bring the first error (in schema order) into view
+  const focus_first_error = React.useCallback(
+    (errors: FormErrors) => {
+      if (!scroll_to_first_error) return;
+      const field_id = get_first_error_field_id(schema, errors);
+      if (field_id) {
+        focus_field(field_id);
+      }
+    },
+    [schema, scroll_to_first_error, focus_field]
+  );
+
+  // Non-blocking messages (warning / info severity), recalculated as values change.
+  // A field edit recalculates only that field and the rule targets that read it;
+  // visibility changes, added / removed instances (and the initial values) recalculate all.
+  // Warnings returned by the validate prop are kept until their field changes
+  const [field_warnings, set_field_warnings] = React.useState<FormWarnings>({});
+  const [custom_warnings, set_custom_warnings] = React.useState<FormWarnings>({});
+  const update_warnings = React.useCallback(
+    (current_values: FormValues, changed_field_name?: string) => {
+      const repeatable_id = changed_field_name && get_repeatable_sub_section_id(schema, changed_field_name);
+      const changed_id = repeatable_id || changed_field_name;
+      if (
+        !changed_field_name ||
+        !changed_id ||
+        condition_field_ids.includes(changed_id) ||
+        repeatable_id === changed_field_name
+      ) {
+        const next_warnings = get_validation_warnings(schema, current_values, config);
+        set_field_warnings((prev) => (same_warnings(prev, next_warnings) ? prev : next_warnings));
+        return;
+      }
+
+      const field_ids = [changed_field_name, ...(rule_dependents[changed_id] ?? [])];
+      const changed_warnings = get_validation_warnings(schema, current_values, config, field_ids);
+      set_field_warnings((prev) => {
+        const next_warnings: FormWarnings = { ...prev };
+        field_ids.forEach((field_id) => delete next_warnings[field_id]);
+        Object.assign(next_warnings, changed_warnings);
+        return same_warnings(prev, next_warnings) ? prev : next_warnings;
+      });
+    },
+    [schema, condition_field_ids, rule_dependents, config]
+  );
+  const displayed_warnings = React.useMemo(
+    () => ({ ...field_warnings, ...custom_warnings }),
+    [field_warnings, custom_warnings]
+  );
+
+  // Tab completion indicators: sections whose values pass headless validation.
+  // A field edit re-checks only its own section and the sections its validation
+  // rules report on; visibility changes (and the initial values) re-check every section
+  const [complete_section_names, set_complete_section_names] = React.useState<string[]>([]);
+  const update_section_completion = React.useCallback(
+    (current_values: FormValues, changed_field_name?: string) => {
+      if (!is_tabs) return;
+      const changed_id = changed_field_name && (get_repeatable_sub_section_id(schema, changed_field_name) ?? changed_field_name);
+      let checked_names: string[] | undefined;
+      if (changed_id && !condition_field_ids.includes(changed_id)) {
+        checked_names = [changed_field_name!, ...(rule_dependents[changed_id] ?? [])]
+          .map((field_id) => find_field_location(schema, field_id)?.section_name)
+          .filter((name): name is string => !!name);
+        if (checked_names.length === 0) return;
+      }
+      const complete_names = get_complete_section_names(schema, current_values, config, checked_names);
+      set_complete_section_names((prev) => {
+        const names = checked_names
+          ? schema
+              .map((section) => section.section_name)
+              .filter((name) => (checked_names!.includes(name) ? complete_names.includes(name) : prev.includes(name)))
+          : complete_names;
+        return prev.length === names.length && prev.every((name, index) => name === names[index]) ? prev : names;
+      });
+    },
+    [is_tabs, schema, condition_field_ids, rule_dependents, config]
+  );
+
+  // Async validators (debounced lookups); services come from the prop or an
+  // app-wide HazoServicesProvider. Pending checks show "Checking…" and hold the submit
+  const context_services = useHazoServices();
+  const async_validation = useAsyncValidation(services ?? context_services);
+  const check_dependent_options = useDependentOptions(schema, form_methods, services ?? context_services);
+
   // Update computed field values
+  // With a changed field, only its (transitive) dependents are recalculated;
+  // without one (mount, reset), every computed field is recalculated.
+  // Computed fields in repeatable sub-sections are calculated per instance, with
+  // field names resolving to the instance's values first; an edit inside an
+  // instance recalculates only that instance
   const update_computed_fields = React.useCallback(
     (current_values: FormValues, changed_field_name?: string) => {
-      // Skip if the changed field is itself a computed field (prevents infinite loop)
-      if (changed_field_name && computed_field_ids.has(changed_field_name)) {
+      // Edits inside a repeatable sub-section change its array (e.g. for TABLE_SUM)
+      const changed_id = changed_field_name && (get_repeatable_sub_section_id(schema, changed_field_name) ?? changed_field_name);
+      const changed_instance_field = changed_field_name ? parse_instance_field_id(schema, changed_field_name) : undefined;
+      // Visibility changes can affect any formula, so recalculate everything
+      const recalculate_all = !changed_id || condition_field_ids.includes(changed_id);
+
+      // Skip if the changed field is itself a computed field: its dependents were
+      // already recalculated in the same pass that set it
+      const field_ids_to_update =
+        changed_id && computed_fields_by_id.has(changed_id)
+          ? []
+          : recalculate_all
+            ? computed_graph.order
+            : get_affected_computed_fields(computed_graph, changed_id);
+
+      const instance_updates = instance_computed.map(({ sub_section, graph }) => {
+        if (changed_instance_field?.sub_section === sub_section) {
+          const { index, field_id } = changed_instance_field;
+          if (graph.dependencies.has(field_id)) {
+            return { field_ids: [], index };
+          }
+          const field_ids = condition_field_ids.includes(field_id)
+            ? graph.order
+            : get_affected_computed_fields(graph, field_id);
+          return { field_ids, index };
+        }
+        // Instances added / removed, or a form field the instance formulas read
+        const field_ids =
+          recalculate_all || changed_id === sub_section.sub_section_id
+            ? graph.order
+            : get_affected_computed_fields(graph, changed_id);
+        return { field_ids, index: undefined };
+      });
+
+      if (field_ids_to_update.length === 0 && instance_updates.every((update) => update.field_ids.length === 0)) {
         return;
       }
 
-      computed_fields.forEach((field) => {
-        if (field.field_info.computed_formula) {
-          let result = evaluate_formula(
-            field.field_info.computed_formula,
-            current_values
+      // Hidden fields don't contribute to formulas, and hidden computed fields aren't updated
+      const hidden_field_ids = get_hidden_field_ids(schema, current_values);
+      const visible_values = omit_hidden_values(current_values, hidden_field_ids);
+
+      // Calculate a field's formula (rounded to its decimal places) into the working
+      // values, so later fields in the order see results computed earlier in this pass
+      const update_field = (field: FormField | undefined, path: string, formula_values: FormValues, field_id: string) => {
+        if (!field?.field_info.computed_formula || hidden_field_ids.has(path)) return;
+        let result = evaluate_formula(field.field_info.computed_formula, formula_values);
+
+        // Round to decimal places if specified
+        if (result !== null && field.field_info.decimal_places !== undefined) {
+          result = round_decimal(
+            result,
+            field.field_info.decimal_places,
+            get_rounding_mode(field.field_info, config)
           );
+        }
 
-          // Round to decimal places if specified
-          if (result !== null && field.field_info.decimal_places !== undefined) {
-            const multiplier = Math.pow(10, field.field_info.decimal_places);
-            result = Math.round(result * multiplier) / multiplier;
-          }
-
-          // Only update if result is valid and different from current value
-          const current_value = current_values[field.id];
-          if (result !== null && result !== current_value) {
-            form_methods.setValue(field.id, result, { shouldDirty: false });
+        // Only update if result is valid and different from current value
+        if (result !== null) {
+          formula_values[field_id] = result;
+          if (result !== get_value_at_path(current_values, path)) {
+            form_methods.setValue(path, result, { shouldDirty: false });
           }
         }
+      };
+
+      instance_computed.forEach(({ sub_section, fields_by_id }, sub_section_index) => {
+        const { field_ids, index } = instance_updates[sub_section_index];
+        if (field_ids.length === 0) return;
+        get_instances(visible_values, sub_section).forEach((instance, instance_index) => {
+          if (index !== undefined && index !== instance_index) return;
+          const instance_values = { ...visible_values, ...instance };
+          field_ids.forEach((field_id) => {
+            const path = get_instance_field_id(sub_section.sub_section_id, instance_index, field_id);
+            update_field(fields_by_id.get(field_id), path, instance_values, field_id);
+          });
+        });
+      });
+
+      const formula_values = { ...visible_values };
+      field_ids_to_update.forEach((field_id) => {
+        update_field(computed_fields_by_id.get(field_id), field_id, formula_values, field_id);
       });
     },
-    [computed_fields, computed_field_ids, form_methods]
+    [schema, computed_fields_by_id, computed_graph, instance_computed, condition_field_ids, config, form_methods]
   );
 
   // Watch for value changes
@@ -226,18 +646,49 @@ export function HazoDataForm({
         on_change(merged_values);
       }
       if (on_field_change && name) {
-        on_field_change(name, merged_values[name]);
+        on_field_change(name, get_value_at_path(merged_values, name));
       }
 
       // Update computed fields (pass changed field name to prevent infinite loop)
       update_computed_fields(merged_values, name);
+
+      // Clear dependent option values the new parent value no longer offers
+      if (name) {
+        check_dependent_options(name, merged_values);
+      }
+
+      update_warnings(merged_values, name);
+      update_section_completion(merged_values, name);
+      if (name) {
+        set_custom_warnings((prev) => {
+          if (!(name in prev)) return prev;
+          const { [name]: _removed, ...rest } = prev;
+          return rest;
+        });
+      }
     });
     return () => subscription.unsubscribe();
-  }, [form_methods, on_change, on_field_change, update_computed_fields, schema_defaults]);
+  }, [
+    form_methods,
+    on_change,
+    on_field_change,
+    update_computed_fields,
+    check_dependent_options,
+    update_warnings,
+    update_section_completion,
+    schema_defaults,
+  ]);
+
+  // Calculate warnings (and tab completion) for the initial values (and when the schema or config changes)
+  React.useEffect(() => {
+    const current_values = { ...schema_defaults, ...form_methods.getValues() };
+    update_warnings(current_values);
+    update_section_completion(current_values);
+  }, [update_warnings, update_section_completion, schema_defaults, form_methods]);
 
   // Calculate computed fields on initial mount
   React.useEffect(() => {
-    if (computed_fields.length > 0) {
+    if (computed_fields.length > 0 || instance_computed.length > 0) {
       // Merge schema_defaults with form values to ensure table data is available
       // Controllers may not have registered yet, so getValues() might be incomplete
       const current_values = form_methods.getValues();
@@ -417,23 +868,63 @@ export function HazoDataForm({
   }, []);
 
   // Handle form submission
-  const handle_submit = form_methods.handleSubmit((data) => {
+  const handle_submit = form_methods.handleSubmit((submitted_data) => {
+    // Circular formulas can't produce a value - block submit until the schema is fixed
+    if (Object.keys(circular_errors).length > 0) {
+      Object.entries(circular_errors).forEach(([field, message]) => {
+        form_methods.setError(field, { type: "circular", message });
+      });
+      focus_first_error(circular_errors);
+      return;
+    }
+
+    // Hidden fields are skipped by validation (their Controllers are unmounted)
+    // and stripped from the output unless keep_hidden_values is set
+    const data = keep_hidden_values
+      ? submitted_data
+      : omit_hidden_values(submitted_data, get_hidden_field_ids(schema, submitted_data));
+
     // Run custom validation if provided
+    // Only error-severity results block submit; warnings are shown and passed on
+    let validate_warnings: FormWarnings = {};
     if (validate) {
-      const validation_errors = validate(data);
+      const { errors: validation_errors, warnings } = split_validation_result(validate(data));
+      set_custom_warnings(warnings);
       if (Object.keys(validation_errors).length > 0) {
         Object.entries(validation_errors).forEach(([field, message]) => {
           form_methods.setError(field, { type: "manual", message });
         });
+        focus_first_error(validation_errors);
         return;
       }
+      validate_warnings = warnings;
     }
 
     if (on_submit) {
-      on_submit(data);
+      // Outstanding warnings go to on_submit alongside the values
+      const warnings = {
+        ...get_validation_warnings(schema, { ...schema_defaults, ...submitted_data }, config),
+        ...validate_warnings,
+      };
+      on_submit(data, warnings);
     }
+  }, (rhf_errors) => {
+    focus_first_error({ ...get_error_messages(rhf_errors), ...field_errors });
   });
 
+  // Debounced async checks start immediately on submit, and the submit waits for them
+  // (the button stays enabled: a blur that starts a check must not swallow the click)
+  const handle_form_submit = (event: React.FormEvent<HTMLFormElement>) => {
+    // Enter on a wizard step before the last acts as Next
+    if (is_wizard && !is_final_step) {
+      event.preventDefault();
+      return handle_next_step();
+    }
+    return async_validation.run_immediately(() => handle_submit(event));
+  };
+
+  const is_async_pending = async_validation.pending_field_ids.length > 0;
+
   // Determine if submit button should be shown
   const should_show_submit =
     show_submit_button !== undefined ? show_submit_button : mode === "edit" && !!on_submit;
@@ -454,40 +945,260 @@ export function HazoDataForm({
     return content;
   };
 
-  // Form content component (reused in both layouts)
-  const form_content = (
-    <FormProvider {...form_methods}>
-      <form onSubmit={handle_submit} className="cls_form_container h-full overflow-auto">
-        {schema.map((section) => (
-          <SectionRenderer
+  // Current values drive section/sub-section/field visibility
+  const form_values = form_methods.getValues();
+  const visible_sections = schema.filter((section) => is_item_visible(section, form_values));
+
+  // Wizard steps follow visibility; the current step is clamped when steps are skipped
+  const steps = is_wizard ? resolve_wizard_steps(schema, form_values, wizard_steps) : [];
+  const step_count = steps.length + (wizard_show_review ? 1 : 0);
+  const current_step = Math.max(0, Math.min(wizard_step ?? internal_wizard_step, step_count - 1));
+  const is_review_step = wizard_show_review && current_step === steps.length;
+  const visited_step_ids = get_completed_step_ids(steps, current_step, completed_step_ids);
+  const is_final_step = current_step >= step_count - 1;
+
+  // Next validates the current step's fields (waiting for async checks) before advancing;
+  // Back never validates. View mode steps through without validation
+  const handle_next_step = async () => {
+    const step = steps[current_step];
+    if (!step) return;
+    if (mode === "edit") {
+      const is_valid = await async_validation.run_immediately(() =>
+        form_methods.trigger(get_step_field_ids(step), { shouldFocus: false })
+      );
+      if (!is_valid) {
+        const step_section_names = step.sections.map((section) => section.section_name);
+        const step_errors = Object.fromEntries(
+          Object.entries(get_error_messages(form_methods.formState.errors)).filter(([field_id]) => {
+            const location = find_field_location(schema, field_id);
+            return !!location && step_section_names.includes(location.section_name);
+          })
+        );
+        focus_first_error(step_errors);
+        return;
+      }
+    }
+    go_to_step(
+      current_step + 1,
+      completed_step_ids.includes(step.id) ? completed_step_ids : [...completed_step_ids, step.id]
+    );
+    form_ref.current?.scrollIntoView({ block: "start", behavior: "smooth" });
+  };
+
+  const handle_previous_step = () => {
+    go_to_step(current_step - 1);
+    form_ref.current?.scrollIntoView({ block: "start", behavior: "smooth" });
+  };
+
+  // React-hook-form errors plus external / circular errors, for the summary and tab badges
+  // (formState.errors is only read, and so only subscribed to, when either is shown).
+  // Collapsed sections unmount their Controllers, so after a submit the summary
+  // checks their fields with validate_section_values() instead
+  const collapsed_visible_names = collapsed_section_names.filter((name) =>
+    visible_sections.some((section) => section.section_name === name)
+  );
+  const collapsed_errors: FormErrors =
+    show_validation_summary &&
+    !validate_collapsed_sections &&
+    collapsed_visible_names.length > 0 &&
+    form_methods.formState.submitCount > 0
+      ? validate_section_values(schema, { ...schema_defaults, ...form_values }, config, collapsed_visible_names)
+      : {};
+  const all_errors: FormErrors =
+    show_validation_summary || is_tabs
+      ? { ...collapsed_errors, ...get_error_messages(form_methods.formState.errors), ...field_errors }
+      : {};
+
+  const validation_summary = show_validation_summary ? (
+    <ValidationSummary
+      schema={schema}
+      errors={all_errors}
+      config={config}
+      on_select={(field_id) => focus_field(field_id, !!collapsed_errors[field_id])}
+      title={validation_summary_title}
+      class_name={validation_summary_position === "sidebar" ? "cls_validation_summary_sidebar" : "mb-6"}
+    />
+  ) : null;
+
+  const render_section = (section: FormSection) => (
+    <SectionRenderer
+      key={section.section_name}
+      section={section}
+      mode={mode}
+      config={config}
+      show_header={show_section_headers && !is_tabs}
+      show_sub_headers={show_sub_section_headers}
+      collapsible={collapsible_sections}
+      collapsed={collapsed_section_names.includes(section.section_name)}
+      on_collapsed_change={(collapsed) => set_section_collapsed(section.section_name, collapsed)}
+      keep_collapsed_mounted={validate_collapsed_sections}
+      on_doc_link_click={handle_doc_link_click}
+      errors={field_errors}
+      warnings={displayed_warnings}
+      upload_enabled={is_upload_enabled}
+      form_values={form_values}
+      on_upload_click={handle_upload_click}
+      get_rule_error={get_rule_error}
+      rule_dependents={rule_dependents}
+      get_async_validate={async_validation.get_validate}
+      async_pending_field_ids={async_validation.pending_field_ids}
+    />
+  );
+
+  // One tab per visible section, labelled with its error count or a completion mark.
+  // Every tab stays mounted (inactive ones are hidden) so submit validates all of them
+  const render_tabs = () => {
+    if (visible_sections.length === 0) return null;
+    const error_counts = count_errors_by_section(schema, all_errors);
+    const requested_tab = active_tab ?? internal_active_tab;
+    const current_tab = visible_sections.some((section) => section.section_name === requested_tab)
+      ? requested_tab
+      : visible_sections[0].section_name;
+
+    return (
+      <Tabs value={current_tab} onValueChange={select_tab} className="cls_form_tabs">
+        <TabsList className="cls_form_tabs_list mb-4 h-auto flex-wrap justify-start">
+          {visible_sections.map((section) => {
+            const error_count = error_counts[section.section_name] ?? 0;
+            return (
+              <TabsTrigger key={section.section_name} value={section.section_name} className="cls_form_tab gap-2">
+                {section.section_name}
+                {error_count > 0 ? (
+                  <span
+                    className="cls_tab_error_badge rounded-full px-1.5 text-xs text-white"
+                    style={{ backgroundColor: config.error_color }}
+                    aria-label={`${error_count} ${error_count === 1 ? "error" : "errors"}`}
+                  >
+                    {error_count}
+                  </span>
+                ) : (
+                  complete_section_names.includes(section.section_name) && (
+                    <span className="cls_tab_complete_indicator text-xs" aria-label="Complete">
+                      ✓
+                    </span>
+                  )
+                )}
+              </TabsTrigger>
+            );
+          })}
+        </TabsList>
+        {visible_sections.map((section) => (
+          <TabsContent
             key={section.section_name}
-            section={section}
-            mode={mode}
+            value={section.section_name}
+            forceMount
+            className="cls_form_tab_content data-[state=inactive]:hidden"
+          >
+            {render_section(section)}
+          </TabsContent>
+        ))}
+      </Tabs>
+    );
+  };
+
+  const submit_button = (
+    <Button
+      type="submit"
+      className="cls_submit_btn"
+      disabled={form_methods.formState.isSubmitting}
+      aria-busy={is_async_pending || undefined}
+    >
+      {form_methods.formState.isSubmitting
+        ? "Submitting..."
+        : is_async_pending
+          ? "Checking..."
+          : submit_button_text}
+    </Button>
+  );
+
+  const form_element = (
+    <form ref={form_ref} onSubmit={handle_form_submit} className="cls_form_container h-full overflow-auto">
+      {validation_summary_position === "top" && validation_summary}
+
+      {is_wizard ? (
+        <>
+          <WizardStepIndicator
+            steps={[
+              ...steps,
+              ...(wizard_show_review ? [{ id: WIZARD_REVIEW_STEP_ID, title: wizard_review_title ?? "Review" }] : []),
+            ]}
+            current_step={current_step}
+            completed_step_ids={visited_step_ids}
             config={config}
-            show_header={show_section_headers}
-            show_sub_headers={show_sub_section_headers}
-            collapsible={collapsible_sections}
-            initially_collapsed={collapsed_sections.includes(section.section_name)}
-            on_doc_link_click={handle_doc_link_click}
-            errors={external_errors}
-            upload_enabled={is_upload_enabled}
-            form_values={form_methods.getValues()}
-            on_upload_click={handle_upload_click}
+            on_select={go_to_step}
           />
-        ))}
 
-        {should_show_submit && (
-          <div className="cls_form_actions mt-6 pt-4 border-t">
+          {/* Every step stays mounted so the final submit validates all of them */}
+          {steps.map((step, index) => (
+            <div
+              key={step.id}
+              className={cn("cls_wizard_step", index !== current_step && "hidden")}
+            >
+              {step.description && (
+                <p className="cls_wizard_step_description mb-4 text-sm text-muted-foreground">{step.description}</p>
+              )}
+              {step.sections.map(render_section)}
+            </div>
+          ))}
+
+          {is_review_step && (
+            <WizardReview
+              schema={schema}
+              steps={steps}
+              values={form_values}
+              config={config}
+              on_edit_step={mode === "edit" ? go_to_step : undefined}
+              title={wizard_review_title}
+            />
+          )}
+        </>
+      ) : is_tabs ? (
+        render_tabs()
+      ) : (
+        visible_sections.map(render_section)
+      )}
+
+      {is_wizard ? (
+        step_count > 0 && (
+          <div className="cls_wizard_actions cls_form_actions mt-6 pt-4 border-t flex items-center justify-between">
             <Button
-              type="submit"
-              className="cls_submit_btn"
-              disabled={form_methods.formState.isSubmitting}
+              type="button"
+              variant="outline"
+              className="cls_wizard_back_btn"
+              onClick={handle_previous_step}
+              disabled={current_step === 0}
             >
-              {form_methods.formState.isSubmitting ? "Submitting..." : submit_button_text}
+              Back
             </Button>
+            {is_final_step ? (
+              should_show_submit && submit_button
+            ) : (
+              <Button type="button" className="cls_wizard_next_btn" onClick={handle_next_step}>
+                {is_async_pending ? "Checking..." : "Next"}
+              </Button>
+            )}
           </div>
-        )}
-      </form>
+        )
+      ) : (
+        should_show_submit && <div className="cls_form_actions mt-6 pt-4 border-t">{submit_button}</div>
+      )}
+    </form>
+  );
+
+  // Form content component (reused in both layouts)
+  // The summary sidebar wrapper depends only on props, so fields never remount
+  const form_content = (
+    <FormProvider {...form_methods}>
+      {validation_summary_position === "sidebar" && validation_summary ? (
+        <div className="cls_form_with_summary flex h-full gap-6">
+          <div className="min-w-0 flex-1">{form_element}</div>
+          <aside className="cls_validation_summary_aside w-72 shrink-0 overflow-auto">
+            {validation_summary}
+          </aside>
+        </div>
+      ) : (
+        form_element
+      )}
     </FormProvider>
   );
 
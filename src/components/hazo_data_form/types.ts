@@ -7,9 +7,13 @@ import type {
   DocLinkClickEvent,
   FormConfig,
   FormErrors,
+  FormValidationResult,
+  FormWarnings,
   PdfPanelPosition,
   PartialFormConfig,
   UploadedFile,
+  WizardProgress,
+  WizardStep,
 } from "../../lib/types";
 import type { FileManagerPopoutContext } from "../file_manager_viewer/types";
 import type { HazoServices } from "../../context";
@@ -169,8 +173,9 @@ export interface HazoDataFormProps {
 
   /**
    * Callback when form is submitted (edit mode)
+   * Receives the outstanding warning / info messages (non-blocking) alongside the values
    */
-  on_submit?: (values: FormValues) => void;
+  on_submit?: (values: FormValues, warnings: FormWarnings) => void;
 
   /**
    * Callback when a doc_link is clicked
@@ -250,9 +255,11 @@ export interface HazoDataFormProps {
   validate_on_change?: boolean;
 
   /**
-   * Custom validation function
+   * Custom validation function, run on submit
+   * Plain string messages are errors; return { message, severity: "warning" | "info" }
+   * for messages that shouldn't block submit
    */
-  validate?: (values: FormValues) => FormErrors;
+  validate?: (values: FormValues) => FormValidationResult;
 
   /**
    * CSS class name for form container
@@ -282,6 +289,39 @@ export interface HazoDataFormProps {
    */
   collapsed_sections?: string[];
 
+  /**
+   * Keep collapsed sections mounted (hidden) so their fields are validated on submit
+   * By default collapsed content unmounts and its fields don't block submit
+   * (the validation summary still lists their errors after a submit)
+   * @default false
+   */
+  validate_collapsed_sections?: boolean;
+
+  /**
+   * Show a summary of every error, grouped by section / sub-section
+   * Clicking an entry expands its section and focuses the field
+   * @default false
+   */
+  show_validation_summary?: boolean;
+
+  /**
+   * Where the validation summary is rendered
+   * @default "top"
+   */
+  validation_summary_position?: "top" | "sidebar";
+
+  /**
+   * Heading of the validation summary
+   * @default "Please fix the following"
+   */
+  validation_summary_title?: string;
+
+  /**
+   * After a failed submit, expand and scroll to the first error (in schema order) and focus it
+   * @default true
+   */
+  scroll_to_first_error?: boolean;
+
   /**
    * Callback to receive react-hook-form methods
    */
@@ -299,6 +339,74 @@ export interface HazoDataFormProps {
    */
   submit_button_text?: string;
 
+  /**
+   * Keep values of fields hidden by show_if / hide_if in the submitted values
+   * By default hidden fields (and their uploads) are stripped from on_submit output
+   * @default false
+   */
+  keep_hidden_values?: boolean;
+
+  /**
+   * Form layout: every section on one scrolling page, one step at a time
+   * with Back / Next controls (each step is validated before advancing),
+   * or one tab per section
+   * @default "scroll"
+   */
+  layout?: "scroll" | "wizard" | "tabs";
+
+  /**
+   * Controlled active tab (section_name) for layout="tabs", e.g. from a deep link
+   * Update it from on_tab_change
+   */
+  active_tab?: string;
+
+  /**
+   * Initially active tab (section_name) when uncontrolled
+   * @default the first visible section
+   */
+  default_active_tab?: string;
+
+  /**
+   * Callback when another tab is selected (by the user, or to show a field with an error)
+   */
+  on_tab_change?: (section_name: string) => void;
+
+  /**
+   * Wizard steps grouping sections by name
+   * Default: one step per visible section. Sections not listed get a step of their own at the end
+   */
+  wizard_steps?: WizardStep[];
+
+  /**
+   * Add a read-only review step before submitting
+   * @default false
+   */
+  wizard_show_review?: boolean;
+
+  /**
+   * Title of the review step
+   * @default "Review"
+   */
+  wizard_review_title?: string;
+
+  /**
+   * Controlled current step index (the review step is the index after the last step)
+   * Update it from on_wizard_step_change
+   */
+  wizard_step?: number;
+
+  /**
+   * Initial step index when uncontrolled (e.g. a persisted step)
+   * @default 0
+   */
+  default_wizard_step?: number;
+
+  /**
+   * Callback when the wizard moves to another step
+   * Receives the new step and the steps completed so far, e.g. to persist progress
+   */
+  on_wizard_step_change?: (progress: WizardProgress) => void;
+
   /**
    * Whether to enable file upload feature for fields
    * This works in conjunction with config.file_upload.enabled
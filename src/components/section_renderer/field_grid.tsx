@@ -0,0 +1,41 @@
+"use client";
+
+import * as React from "react";
+import { useElementWidth } from "../../hooks/use_element_width";
+import { get_grid_column_count } from "../../lib/grid_layout";
+import type { FieldGroup } from "../../lib/types";
+
+export interface FieldGridProps {
+  field_group: Pick<FieldGroup, "columns" | "responsive_columns">;
+  row_gap?: string;
+  column_gap?: string;
+  /** Render the grid items for the current column count */
+  children: (column_count: number) => React.ReactNode;
+}
+
+/**
+ * Field Grid
+ * Lays out a "grid" field group, picking the column count from its own width
+ * (a form beside the PDF panel collapses like one on a narrow screen)
+ */
+export function FieldGrid({ field_group, row_gap, column_gap, children }: FieldGridProps) {
+  const { ref, width } = useElementWidth<HTMLDivElement>();
+  const column_count = get_grid_column_count(field_group, width);
+
+  return (
+    <div
+      ref={ref}
+      className="cls_field_group cls_field_grid grid items-start"
+      data-columns={column_count}
+      style={{
+        gridTemplateColumns: `repeat(${column_count}, minmax(0, 1fr))`,
+        rowGap: row_gap,
+        columnGap: column_gap,
+        paddingLeft: "12px",
+        paddingRight: "12px",
+      }}
+    >
+      {children(column_count)}
+    </div>
+  );
+}
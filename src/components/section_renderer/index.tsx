@@ -3,7 +3,9 @@
 import * as React from "react";
 import { SubSectionRenderer } from "./sub_section_renderer";
 import { cn } from "../../lib/utils";
-import type { FormSection, FormMode, FormConfig, FormErrors, DocLink, StyleVariant, FormValues } from "../../lib/types";
+import { is_item_visible } from "../../lib/conditions";
+import type { FormSection, FormMode, FormConfig, FormErrors, FormWarnings, DocLink, StyleVariant, FormValues } from "../../lib/types";
+import type { SubSectionRendererProps } from "./sub_section_renderer";
 
 export interface SectionRendererProps {
   section: FormSection;
@@ -13,11 +15,22 @@ export interface SectionRendererProps {
   show_sub_headers?: boolean;
   collapsible?: boolean;
   initially_collapsed?: boolean;
+  /** Controlled collapsed state (overrides initially_collapsed) */
+  collapsed?: boolean;
+  /** Called when the header is clicked to collapse / expand */
+  on_collapsed_change?: (collapsed: boolean) => void;
+  /** Keep collapsed content mounted (hidden) so its fields are still validated */
+  keep_collapsed_mounted?: boolean;
   on_doc_link_click?: (field_id: string, doc_links: DocLink[], field_label?: string) => void;
   errors?: FormErrors;
+  warnings?: FormWarnings;
   upload_enabled?: boolean;
   form_values?: FormValues;
   on_upload_click?: (field_id: string, field_label: string, section_name?: string, sub_section_id?: string) => void;
+  get_rule_error?: SubSectionRendererProps["get_rule_error"];
+  rule_dependents?: SubSectionRendererProps["rule_dependents"];
+  get_async_validate?: SubSectionRendererProps["get_async_validate"];
+  async_pending_field_ids?: SubSectionRendererProps["async_pending_field_ids"];
 }
 
 /**
@@ -32,17 +45,27 @@ export function SectionRenderer({
   show_sub_headers = true,
   collapsible = false,
   initially_collapsed = false,
+  collapsed,
+  on_collapsed_change,
+  keep_collapsed_mounted = false,
   on_doc_link_click,
   errors,
+  warnings,
   upload_enabled,
   form_values,
   on_upload_click,
+  get_rule_error,
+  rule_dependents,
+  get_async_validate,
+  async_pending_field_ids,
 }: SectionRendererProps) {
-  const [is_collapsed, set_is_collapsed] = React.useState(initially_collapsed);
+  const [internal_collapsed, set_internal_collapsed] = React.useState(initially_collapsed);
+  const is_collapsed = collapsed ?? internal_collapsed;
 
   const toggle_collapsed = () => {
     if (collapsible) {
-      set_is_collapsed(!is_collapsed);
+      set_internal_collapsed(!is_collapsed);
+      on_collapsed_change?.(!is_collapsed);
     }
   };
 
@@ -50,6 +73,11 @@ export function SectionRenderer({
   const style_variant: StyleVariant = section.style_variant || "header_h1";
   const style_config = config.styles[style_variant];
 
+  // Apply show_if / hide_if when values are available
+  const visible_sub_sections = form_values
+    ? section.sub_sections.filter((sub_section) => is_item_visible(sub_section, form_values))
+    : section.sub_sections;
+
   return (
     <section
       className="cls_section"
@@ -104,14 +132,18 @@ export function SectionRenderer({
         </div>
       )}
 
-      {!is_collapsed && (
+      {/* Collapsed content unmounts unless kept mounted (hidden) for validation */}
+      {(!is_collapsed || keep_collapsed_mounted) && (
         <div
           className={cn(
             "cls_section_content",
-            section.sub_section_layout === "horizontal" && "grid grid-cols-2 gap-6"
+            is_collapsed
+              ? "hidden"
+              : section.sub_section_layout === "horizontal" && "grid grid-cols-2 gap-6"
           )}
+          aria-hidden={is_collapsed || undefined}
         >
-          {section.sub_sections.map((sub_section) => (
+          {visible_sub_sections.map((sub_section) => (
             <SubSectionRenderer
               key={sub_section.sub_section_id}
               sub_section={sub_section}
@@ -120,8 +152,13 @@ export function SectionRenderer({
               show_header={show_sub_headers}
               on_doc_link_click={on_doc_link_click}
               errors={errors}
+              warnings={warnings}
               upload_enabled={upload_enabled}
               form_values={form_values}
+              get_rule_error={get_rule_error}
+              rule_dependents={rule_dependents}
+              get_async_validate={get_async_validate}
+              async_pending_field_ids={async_pending_field_ids}
               on_upload_click={
                 on_upload_click
                   ? (field_id: string, field_label: string) =>
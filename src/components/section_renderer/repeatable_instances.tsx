@@ -0,0 +1,142 @@
+"use client";
+
+import * as React from "react";
+import { useFieldArray, useFormContext, useFormState, useWatch } from "react-hook-form";
+import { get_instance_defaults, get_instance_label } from "../../lib/repeatable_sections";
+import { check_instance_count } from "../../lib/validation";
+import type { FormConfig, FormMode, FormValues, SubSection } from "../../lib/types";
+
+export interface RepeatableInstancesProps {
+  sub_section: SubSection;
+  mode: FormMode;
+  config: FormConfig;
+  /** External error for the sub-section (e.g. from the errors prop) */
+  error?: string;
+  /** Render the field group of one instance */
+  render_instance: (index: number, instance_values: FormValues) => React.ReactNode;
+}
+
+/**
+ * Repeatable Instances
+ * Renders each instance of a repeatable sub-section with add / remove controls.
+ * Instances are a react-hook-form field array under sub_section_id; the
+ * instance count (min_instances / max_instances) is validated on submit.
+ */
+export function RepeatableInstances({
+  sub_section,
+  mode,
+  config,
+  error,
+  render_instance,
+}: RepeatableInstancesProps) {
+  const { control } = useFormContext();
+  const sub_section_id = sub_section.sub_section_id;
+  const is_view = mode === "view";
+  const min_instances = sub_section.min_instances ?? 0;
+  const max_instances = sub_section.max_instances ?? Infinity;
+
+  const { fields: instances, append, remove } = useFieldArray({
+    control,
+    name: sub_section_id,
+    rules: {
+      validate: (value) => check_instance_count(sub_section, value) ?? true,
+    },
+  });
+
+  // Subscribe to instance values so show_if / hide_if inside instances stay current
+  const instance_values = (useWatch({ control, name: sub_section_id }) as FormValues[] | undefined) ?? [];
+
+  // Instance-count errors are reported on the array's root
+  const { errors } = useFormState({ control, name: sub_section_id });
+  const array_error = errors[sub_section_id] as { root?: { message?: string } } | undefined;
+  const count_error = error || array_error?.root?.message;
+
+  return (
+    <div
+      className="cls_repeatable_instances flex flex-col"
+      data-field-id={sub_section_id}
+      style={{ gap: config.field_gap_vertical }}
+    >
+      {instances.length === 0 && is_view && (
+        <p className="cls_repeatable_empty px-3 text-sm text-muted-foreground">None</p>
+      )}
+
+      {instances.map((instance, index) => {
+        const instance_label = get_instance_label(sub_section, index);
+        return (
+          <div key={instance.id} className="cls_repeatable_instance rounded-md border py-3">
+            <div className="cls_repeatable_instance_header mb-3 flex items-center justify-between px-3">
+              <span
+                className="cls_repeatable_instance_label font-medium"
+                style={{
+                  color: config.label_color,
+                  fontFamily: config.label_font_family,
+                  fontSize: config.label_font_size,
+                }}
+              >
+                {instance_label}
+              </span>
+              {!is_view && (
+                <button
+                  type="button"
+                  onClick={() => remove(index)}
+                  disabled={instances.length <= min_instances}
+                  className="cls_remove_instance_btn p-1 text-muted-foreground hover:text-destructive disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label={`Remove ${instance_label}`}
+                >
+                  <svg
+                    xmlns="http://www.w3.org/2000/svg"
+                    width="16"
+                    height="16"
+                    viewBox="0 0 24 24"
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="2"
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                  >
+                    <path d="M3 6h18" />
+                    <path d="M19 6v14c0 1-1 2-2 2H7c-1 0-2-1-2-2V6" />
+                    <path d="M8 6V4c0-1 1-2 2-2h4c1 0 2 1 2 2v2" />
+                  </svg>
+                </button>
+              )}
+            </div>
+            {render_instance(index, instance_values[index] ?? {})}
+          </div>
+        );
+      })}
+
+      {!is_view && (
+        <button
+          type="button"
+          onClick={() => append(get_instance_defaults(sub_section), { shouldFocus: false })}
+          disabled={instances.length >= max_instances}
+          className="cls_add_instance_btn self-start text-xs text-muted-foreground hover:text-foreground disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1"
+        >
+          <svg
+            xmlns="http://www.w3.org/2000/svg"
+            width="12"
+            height="12"
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="2"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M12 5v14" />
+            <path d="M5 12h14" />
+          </svg>
+          {sub_section.add_button_text ?? "Add another"}
+        </button>
+      )}
+
+      {count_error && (
+        <p className="cls_error_message text-sm" style={{ color: config.error_color }}>
+          {count_error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,8 +3,14 @@
 import * as React from "react";
 import { Controller, useFormContext } from "react-hook-form";
 import { FieldRenderer } from "../field_renderers";
+import { RepeatableInstances } from "./repeatable_instances";
+import { FieldGrid } from "./field_grid";
 import { cn, get_field_uploads, normalize_doc_links } from "../../lib/utils";
-import type { SubSection, FormMode, FormConfig, FormErrors, DocLink, StyleVariant, FormField, FormValues } from "../../lib/types";
+import { is_item_visible } from "../../lib/conditions";
+import { get_async_validation, get_field_validation_rules, type AsyncValidation } from "../../lib/validation";
+import { get_instance_fields, get_instance_label, get_instances } from "../../lib/repeatable_sections";
+import { get_grid_item_style } from "../../lib/grid_layout";
+import type { SubSection, FormMode, FormConfig, FormErrors, FormWarnings, DocLink, StyleVariant, FormField, FormValues } from "../../lib/types";
 
 export interface SubSectionRendererProps {
   sub_section: SubSection;
@@ -13,14 +19,28 @@ export interface SubSectionRendererProps {
   show_header?: boolean;
   on_doc_link_click?: (field_id: string, doc_links: DocLink[], field_label?: string) => void;
   errors?: FormErrors;
+  /** Non-blocking warning / info messages, shown when the field has no error */
+  warnings?: FormWarnings;
   upload_enabled?: boolean;
   form_values?: FormValues;
   on_upload_click?: (field_id: string, field_label: string) => void;
+  /** Returns the cross-field rule error (validation_rules) for a field, if any */
+  get_rule_error?: (field_id: string, values: FormValues) => string | undefined;
+  /** Rule target field IDs to re-validate when a field changes, keyed by field ID */
+  rule_dependents?: Record<string, string[]>;
+  /** Builds the debounced validate function for a field's async validator */
+  get_async_validate?: (
+    field_id: string,
+    validation: AsyncValidation
+  ) => (value: unknown, values: FormValues) => Promise<true | string>;
+  /** Field IDs with an async check pending (shown as "Checking…") */
+  async_pending_field_ids?: string[];
 }
 
 /**
  * Sub-section Renderer
  * Renders a sub-section with its label and field group
+ * Repeatable sub-sections render the field group once per instance
  */
 export function SubSectionRenderer({
   sub_section,
@@ -29,13 +49,19 @@ export function SubSectionRenderer({
   show_header = true,
   on_doc_link_click,
   errors,
+  warnings,
   upload_enabled,
   form_values,
   on_upload_click,
+  get_rule_error,
+  rule_dependents,
+  get_async_validate,
+  async_pending_field_ids,
 }: SubSectionRendererProps) {
   const form = useFormContext();
   const { orientation, fields, badge_column_width, value_column_width, column_headers } = sub_section.field_group;
   const is_horizontal = orientation === "horizontal";
+  const is_grid = orientation === "grid";
 
   // Get style variant for sub-section header (default to header_h2)
   const style_variant: StyleVariant = sub_section.style_variant || "header_h2";
@@ -44,49 +70,46 @@ export function SubSectionRenderer({
   // Check if we have paired fields that need column headers
   const has_column_headers = column_headers && column_headers.length > 0;
 
-  // Build validation rules for a field based on field_info
+  // Build validation rules for a field based on field_info and its field type definition
   const get_validation_rules = (field: FormField) => {
-    const rules: Record<string, unknown> = {};
-
-    if (field.field_info.required) {
-      rules.required = `${field.label || "This field"} is required`;
-    }
-
-    if (field.field_info.min !== undefined) {
-      rules.min = {
-        value: field.field_info.min,
-        message: `Minimum value is ${field.field_info.min}`,
-      };
-    }
+    const rules: Record<string, unknown> = { ...get_field_validation_rules(field, config) };
+    add_cross_field_rules(rules, field.id);
+    add_async_rule(rules, field);
+    return rules;
+  };
 
-    if (field.field_info.max !== undefined) {
-      rules.max = {
-        value: field.field_info.max,
-        message: `Maximum value is ${field.field_info.max}`,
+  // Cross-field rules (section validation_rules) report on their target field,
+  // and re-validate targets when a field they read changes
+  const add_cross_field_rules = (rules: Record<string, unknown>, field_id: string) => {
+    if (get_rule_error) {
+      rules.validate = {
+        ...(rules.validate as Record<string, unknown> | undefined),
+        validation_rules: (_value: unknown, values: FormValues) => get_rule_error(field_id, values) ?? true,
       };
     }
-
-    if (field.field_info.min_length !== undefined) {
-      rules.minLength = {
-        value: field.field_info.min_length,
-        message: `Minimum length is ${field.field_info.min_length} characters`,
-      };
+    const deps = rule_dependents?.[field_id];
+    if (deps?.length) {
+      rules.deps = deps;
     }
+  };
 
-    if (field.field_info.max_length !== undefined) {
-      rules.maxLength = {
-        value: field.field_info.max_length,
-        message: `Maximum length is ${field.field_info.max_length} characters`,
+  // Async validators run last, only once every sync check has passed
+  const add_async_rule = (rules: Record<string, unknown>, field: Pick<FormField, "id" | "field_info">) => {
+    const async_validation = get_async_validate && get_async_validation(field, config);
+    if (async_validation) {
+      rules.validate = {
+        ...(rules.validate as Record<string, unknown> | undefined),
+        [async_validation.name]: get_async_validate(field.id, async_validation),
       };
     }
-
-    return rules;
   };
 
   // Render a single field with form integration
   const render_field_with_form = (field: FormField, paired_value?: unknown, paired_on_change?: (value: unknown) => void, paired_on_blur?: () => void) => {
     const field_error = errors?.[field.id];
     const paired_error = field.paired_field ? errors?.[field.paired_field.id] : undefined;
+    const field_warning =
+      warnings?.[field.id] ?? (field.paired_field ? warnings?.[field.paired_field.id] : undefined);
     const field_uploads = form_values ? get_field_uploads(form_values, field.id) : [];
 
     if (form) {
@@ -124,6 +147,10 @@ export function SubSectionRenderer({
               paired_on_change={paired_on_change}
               paired_on_blur={paired_on_blur}
               paired_error={paired_error}
+              warning={field_warning}
+              is_validating={async_pending_field_ids?.some(
+                (id) => id === field.id || id === field.paired_field?.id
+              )}
               upload_enabled={upload_enabled}
               field_uploads={field_uploads}
               on_upload_click={
@@ -161,6 +188,7 @@ export function SubSectionRenderer({
         value_column_width={value_column_width}
         paired_value={field.paired_field?.value}
         paired_error={paired_error}
+        warning={field_warning}
         upload_enabled={upload_enabled}
         field_uploads={field_uploads}
         on_upload_click={
@@ -172,9 +200,172 @@ export function SubSectionRenderer({
     );
   };
 
+  // Render a field group; show_if / hide_if are checked against visibility_values when available
+  // Hidden fields don't mount a Controller, so react-hook-form skips their validation
+  const render_field_group = (group_fields: FormField[], visibility_values?: FormValues) => {
+    const visible_fields = visibility_values
+      ? group_fields.filter((field) => is_item_visible(field, visibility_values))
+      : group_fields;
+
+    // Grid groups place fields by col_span / row_span for the measured column count
+    if (is_grid) {
+      return (
+        <FieldGrid
+          field_group={sub_section.field_group}
+          row_gap={config.field_gap_vertical}
+          column_gap={config.field_gap_horizontal}
+        >
+          {(column_count) => render_fields(visible_fields, column_count)}
+        </FieldGrid>
+      );
+    }
+
+    return (
+      <div
+        className={cn(
+          "cls_field_group",
+          is_horizontal
+            ? "flex flex-wrap items-start"
+            : "flex flex-col"
+        )}
+        style={{
+          gap: is_horizontal ? config.field_gap_horizontal : config.field_gap_vertical,
+          paddingLeft: "12px",
+          paddingRight: "12px",
+        }}
+      >
+        {render_fields(visible_fields)}
+      </div>
+    );
+  };
+
+  // Render field wrappers (with grid placement when a column count is given)
+  const render_fields = (visible_fields: FormField[], column_count?: number) =>
+    visible_fields.map((field) => {
+      // Handle paired fields - need to register both with form
+      if (field.paired_field && form) {
+        // Build validation rules for paired field
+        const paired_rules: Record<string, unknown> = {
+          ...get_field_validation_rules(
+            { label: `${field.label || "This field"} (paired)`, field_info: field.paired_field.field_info },
+            config
+          ),
+        };
+        add_cross_field_rules(paired_rules, field.paired_field.id);
+        add_async_rule(paired_rules, field.paired_field);
+
+        // Apply highlight row styling if specified
+        const is_highlight = field.row_variant === "highlight";
+
+        return (
+          <div
+            key={field.id}
+            data-field-id={field.id}
+            data-paired-field-id={field.paired_field.id}
+            className={cn(
+              "cls_field_wrapper",
+              is_horizontal && "flex-1 min-w-[200px]",
+              is_highlight && "cls_highlight_row"
+            )}
+            style={{
+              backgroundColor: is_highlight ? config.highlight_row_background : undefined,
+              padding: is_highlight ? "8px 12px" : undefined,
+              marginLeft: is_highlight ? "-12px" : undefined,
+              marginRight: is_highlight ? "-12px" : undefined,
+              width: is_highlight ? "calc(100% + 24px)" : "100%",
+              borderRadius: is_highlight ? "4px" : undefined,
+              boxSizing: "border-box",
+              ...(column_count ? get_grid_item_style(field, column_count) : undefined),
+            }}
+          >
+            <Controller
+              name={field.paired_field.id}
+              control={form.control}
+              defaultValue={field.paired_field.value ?? ""}
+              rules={paired_rules}
+              render={({ field: paired_form_field, fieldState: paired_field_state }) => (
+                <>
+                  {render_field_with_form(
+                    field,
+                    paired_form_field.value,
+                    paired_form_field.onChange,
+                    paired_form_field.onBlur
+                  )}
+                </>
+              )}
+            />
+          </div>
+        );
+      }
+
+      // Regular field (no pairing)
+      // Apply highlight row styling if specified
+      const is_highlight = field.row_variant === "highlight";
+
+      return (
+        <div
+          key={field.id}
+          data-field-id={field.id}
+          className={cn(
+            "cls_field_wrapper",
+            is_horizontal && "flex-1 min-w-[200px]",
+            is_highlight && "cls_highlight_row"
+          )}
+          style={{
+            backgroundColor: is_highlight ? config.highlight_row_background : undefined,
+            padding: is_highlight ? "8px 12px" : undefined,
+            marginLeft: is_highlight ? "-12px" : undefined,
+            marginRight: is_highlight ? "-12px" : undefined,
+            width: is_highlight ? "calc(100% + 24px)" : "100%",
+            borderRadius: is_highlight ? "4px" : undefined,
+            boxSizing: "border-box",
+            ...(column_count ? get_grid_item_style(field, column_count) : undefined),
+          }}
+        >
+          {render_field_with_form(field)}
+        </div>
+      );
+    });
+
+  // Repeatable sub-sections: one field group per instance, with IDs scoped to the
+  // instance ("<sub_section_id>.<index>.<field_id>"). Instance fields see the form
+  // values overlaid with their own instance's values in show_if / hide_if
+  const render_instances = () => {
+    if (form) {
+      return (
+        <RepeatableInstances
+          sub_section={sub_section}
+          mode={mode}
+          config={config}
+          error={errors?.[sub_section.sub_section_id]}
+          render_instance={(index, instance_values) =>
+            render_field_group(get_instance_fields(sub_section, index), { ...form_values, ...instance_values })
+          }
+        />
+      );
+    }
+
+    // Without form context, render the instances read-only from form_values
+    return (
+      <div className="cls_repeatable_instances flex flex-col" style={{ gap: config.field_gap_vertical }}>
+        {get_instances(form_values ?? {}, sub_section).map((instance_values, index) => (
+          <div key={index} className="cls_repeatable_instance rounded-md border py-3">
+            <p
+              className="cls_repeatable_instance_label mb-3 px-3 font-medium"
+              style={{ color: config.label_color, fontFamily: config.label_font_family, fontSize: config.label_font_size }}
+            >
+              {get_instance_label(sub_section, index)}
+            </p>
+            {render_field_group(get_instance_fields(sub_section, index, instance_values), { ...form_values, ...instance_values })}
+          </div>
+        ))}
+      </div>
+    );
+  };
+
   return (
     <div
-      className="cls_sub_section"
+      className={cn("cls_sub_section", sub_section.repeatable && "cls_repeatable_sub_section")}
       style={{ marginBottom: config.sub_section_spacing }}
     >
       {show_header && sub_section.sub_section_label && (
@@ -243,108 +434,7 @@ export function SubSectionRenderer({
         </div>
       )}
 
-      <div
-        className={cn(
-          "cls_field_group",
-          is_horizontal
-            ? "flex flex-wrap items-start"
-            : "flex flex-col"
-        )}
-        style={{
-          gap: is_horizontal ? config.field_gap_horizontal : config.field_gap_vertical,
-          paddingLeft: "12px",
-          paddingRight: "12px",
-        }}
-      >
-        {fields.map((field) => {
-          // Handle paired fields - need to register both with form
-          if (field.paired_field && form) {
-            // Build validation rules for paired field
-            const paired_rules: Record<string, unknown> = {};
-            if (field.paired_field.field_info?.required) {
-              paired_rules.required = `${field.label || "This field"} (paired) is required`;
-            }
-            if (field.paired_field.field_info?.min !== undefined) {
-              paired_rules.min = {
-                value: field.paired_field.field_info.min,
-                message: `Minimum value is ${field.paired_field.field_info.min}`,
-              };
-            }
-            if (field.paired_field.field_info?.max !== undefined) {
-              paired_rules.max = {
-                value: field.paired_field.field_info.max,
-                message: `Maximum value is ${field.paired_field.field_info.max}`,
-              };
-            }
-
-            // Apply highlight row styling if specified
-            const is_highlight = field.row_variant === "highlight";
-
-            return (
-              <div
-                key={field.id}
-                className={cn(
-                  "cls_field_wrapper",
-                  is_horizontal && "flex-1 min-w-[200px]",
-                  is_highlight && "cls_highlight_row"
-                )}
-                style={{
-                  backgroundColor: is_highlight ? config.highlight_row_background : undefined,
-                  padding: is_highlight ? "8px 12px" : undefined,
-                  marginLeft: is_highlight ? "-12px" : undefined,
-                  marginRight: is_highlight ? "-12px" : undefined,
-                  width: is_highlight ? "calc(100% + 24px)" : "100%",
-                  borderRadius: is_highlight ? "4px" : undefined,
-                  boxSizing: "border-box",
-                }}
-              >
-                <Controller
-                  name={field.paired_field.id}
-                  control={form.control}
-                  defaultValue={field.paired_field.value ?? ""}
-                  rules={paired_rules}
-                  render={({ field: paired_form_field, fieldState: paired_field_state }) => (
-                    <>
-                      {render_field_with_form(
-                        field,
-                        paired_form_field.value,
-                        paired_form_field.onChange,
-                        paired_form_field.onBlur
-                      )}
-                    </>
-                  )}
-                />
-              </div>
-            );
-          }
-
-          // Regular field (no pairing)
-          // Apply highlight row styling if specified
-          const is_highlight = field.row_variant === "highlight";
-
-          return (
-            <div
-              key={field.id}
-              className={cn(
-                "cls_field_wrapper",
-                is_horizontal && "flex-1 min-w-[200px]",
-                is_highlight && "cls_highlight_row"
-              )}
-              style={{
-                backgroundColor: is_highlight ? config.highlight_row_background : undefined,
-                padding: is_highlight ? "8px 12px" : undefined,
-                marginLeft: is_highlight ? "-12px" : undefined,
-                marginRight: is_highlight ? "-12px" : undefined,
-                width: is_highlight ? "calc(100% + 24px)" : "100%",
-                borderRadius: is_highlight ? "4px" : undefined,
-                boxSizing: "border-box",
-              }}
-            >
-              {render_field_with_form(field)}
-            </div>
-          );
-        })}
-      </div>
+      {sub_section.repeatable ? render_instances() : render_field_group(fields, form_values)}
     </div>
   );
 }
@@ -0,0 +1,87 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "../../lib/utils";
+import { build_error_summary } from "../../lib/error_summary";
+import type { FormConfig, FormErrors, FormSchema } from "../../lib/types";
+
+export interface ValidationSummaryProps {
+  schema: FormSchema;
+  errors: FormErrors;
+  config: FormConfig;
+  /** Called with the field ID when an entry is clicked */
+  on_select?: (field_id: string) => void;
+  /** Heading text (the error count is appended) */
+  title?: string;
+  class_name?: string;
+}
+
+/**
+ * Validation Summary
+ * Lists every error grouped by section / sub-section. Renders nothing when there are no errors.
+ */
+export function ValidationSummary({
+  schema,
+  errors,
+  config,
+  on_select,
+  title = "Please fix the following",
+  class_name,
+}: ValidationSummaryProps) {
+  const groups = React.useMemo(() => build_error_summary(schema, errors), [schema, errors]);
+  const error_count = groups.reduce((count, group) => count + group.entries.length, 0);
+
+  if (error_count === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      className={cn("cls_validation_summary rounded-md border p-4 text-sm", class_name)}
+      style={{ borderColor: config.error_color }}
+      role="alert"
+    >
+      <p className="cls_validation_summary_title mb-2 font-semibold" style={{ color: config.error_color }}>
+        {title} ({error_count})
+      </p>
+
+      {groups.map((group) => (
+        <div
+          key={`${group.section_name}:${group.sub_section_id ?? ""}`}
+          className="cls_validation_summary_group mt-2"
+        >
+          {group.section_name && (
+            <p className="cls_validation_summary_heading font-medium text-muted-foreground">
+              {group.section_name}
+              {group.sub_section_label && (
+                <>
+                  {" › "}
+                  {group.item_code && <span className="font-mono">[{group.item_code}] </span>}
+                  {group.sub_section_label}
+                </>
+              )}
+            </p>
+          )}
+          <ul className="cls_validation_summary_list mt-1 space-y-1">
+            {group.entries.map((entry) => (
+              <li key={entry.field_id}>
+                <button
+                  type="button"
+                  className="cls_validation_summary_entry text-left hover:underline"
+                  onClick={() => on_select?.(entry.field_id)}
+                >
+                  {entry.item_code && (
+                    <span className="cls_item_code mr-1 font-mono">{entry.item_code}</span>
+                  )}
+                  <span className="font-medium">{entry.label}</span>
+                  {": "}
+                  <span style={{ color: config.error_color }}>{entry.message}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </div>
+  );
+}
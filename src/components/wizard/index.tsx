@@ -0,0 +1,6 @@
+"use client";
+
+export { WizardStepIndicator } from "./step_indicator";
+export type { WizardStepIndicatorProps } from "./step_indicator";
+export { WizardReview } from "./review_step";
+export type { WizardReviewProps } from "./review_step";
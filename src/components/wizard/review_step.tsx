@@ -0,0 +1,118 @@
+"use client";
+
+import * as React from "react";
+import { FieldRenderer } from "../field_renderers";
+import { Button } from "../ui/button";
+import { get_hidden_field_ids, is_item_visible } from "../../lib/conditions";
+import { get_instance_fields, get_instance_label, get_instances } from "../../lib/repeatable_sections";
+import { get_value_at_path } from "../../lib/value_paths";
+import type { FormConfig, FormField, FormSchema, FormValues, SubSection } from "../../lib/types";
+import type { ResolvedWizardStep } from "../../lib/wizard";
+
+export interface WizardReviewProps {
+  schema: FormSchema;
+  steps: ResolvedWizardStep[];
+  values: FormValues;
+  config: FormConfig;
+  /** Called with the step index when a step's Edit button is clicked */
+  on_edit_step?: (step_index: number) => void;
+  title?: string;
+}
+
+/**
+ * Wizard Review
+ * Read-only summary of every step's values, with an Edit button per step.
+ * Fields are rendered in view mode from the values (not registered with the form).
+ */
+export function WizardReview({ schema, steps, values, config, on_edit_step, title = "Review" }: WizardReviewProps) {
+  const hidden_field_ids = React.useMemo(() => get_hidden_field_ids(schema, values), [schema, values]);
+  const title_style = config.styles.header_h1;
+
+  const render_field = (field: FormField) => (
+    <FieldRenderer
+      key={field.id}
+      field={field}
+      mode="view"
+      value={get_value_at_path(values, field.id)}
+      config={config}
+      on_change={() => {}}
+      paired_value={field.paired_field ? get_value_at_path(values, field.paired_field.id) : undefined}
+    />
+  );
+
+  const render_fields = (fields: FormField[]) => (
+    <div className="cls_wizard_review_fields flex flex-col" style={{ gap: config.field_gap_vertical }}>
+      {fields.filter((field) => !hidden_field_ids.has(field.id)).map(render_field)}
+    </div>
+  );
+
+  const render_sub_section = (sub_section: SubSection) => {
+    if (!is_item_visible(sub_section, values) || hidden_field_ids.has(sub_section.sub_section_id)) {
+      return null;
+    }
+    return (
+      <div key={sub_section.sub_section_id} className="cls_wizard_review_sub_section mb-4">
+        {sub_section.sub_section_label && (
+          <p
+            className="cls_wizard_review_sub_section_label mb-2 font-medium"
+            style={{ color: config.label_color, fontFamily: config.label_font_family }}
+          >
+            {sub_section.sub_section_label}
+          </p>
+        )}
+        {sub_section.repeatable ? (
+          get_instances(values, sub_section).map((_instance, index) => (
+            <div key={index} className="cls_wizard_review_instance mb-2">
+              <p className="mb-1 text-sm text-muted-foreground">{get_instance_label(sub_section, index)}</p>
+              {render_fields(get_instance_fields(sub_section, index))}
+            </div>
+          ))
+        ) : (
+          render_fields(sub_section.field_group.fields)
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="cls_wizard_review">
+      <h2
+        className="cls_wizard_review_title mb-4"
+        style={{
+          color: title_style.font_color,
+          fontFamily: config.label_font_family,
+          fontSize: title_style.font_size,
+          fontWeight: title_style.font_weight,
+        }}
+      >
+        {title}
+      </h2>
+      {steps.map((step, index) => (
+        <div key={step.id} className="cls_wizard_review_step mb-6 rounded-md border p-4">
+          <div className="mb-3 flex items-center justify-between">
+            <h3 className="cls_wizard_review_step_title font-semibold">{step.title}</h3>
+            {on_edit_step && (
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                className="cls_wizard_edit_step_btn"
+                onClick={() => on_edit_step(index)}
+              >
+                Edit
+              </Button>
+            )}
+          </div>
+          {step.sections.map((section) => (
+            <div key={section.section_name} className="cls_wizard_review_section">
+              {step.sections.length > 1 && (
+                <p className="mb-2 text-sm font-medium text-muted-foreground">{section.section_name}</p>
+              )}
+              {section.sub_sections.map(render_sub_section)}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
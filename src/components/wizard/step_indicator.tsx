@@ -0,0 +1,70 @@
+"use client";
+
+import * as React from "react";
+import { cn } from "../../lib/utils";
+import type { FormConfig } from "../../lib/types";
+
+export interface WizardStepIndicatorProps {
+  /** Steps in order (including the review step, if shown) */
+  steps: { id: string; title: string }[];
+  current_step: number;
+  completed_step_ids: string[];
+  config: FormConfig;
+  /** Called when a reachable step is clicked */
+  on_select?: (step_index: number) => void;
+}
+
+/**
+ * Wizard Step Indicator
+ * Numbered list of steps marking the current and completed steps. A step can be
+ * selected once every step before it has been completed.
+ */
+export function WizardStepIndicator({
+  steps,
+  current_step,
+  completed_step_ids,
+  config,
+  on_select,
+}: WizardStepIndicatorProps) {
+  const is_reachable = (index: number) =>
+    steps.slice(0, index).every((step) => completed_step_ids.includes(step.id));
+
+  return (
+    <nav className="cls_wizard_steps mb-6" aria-label="Form steps">
+      <ol className="flex flex-wrap items-center gap-2">
+        {steps.map((step, index) => {
+          const is_current = index === current_step;
+          const is_completed = !is_current && completed_step_ids.includes(step.id);
+          return (
+            <li key={step.id} className="flex items-center gap-2">
+              {index > 0 && <span className="h-px w-6 bg-border" aria-hidden="true" />}
+              <button
+                type="button"
+                onClick={() => on_select?.(index)}
+                disabled={is_current || !on_select || !is_reachable(index)}
+                aria-current={is_current ? "step" : undefined}
+                className={cn(
+                  "cls_wizard_step_item flex items-center gap-2 text-sm disabled:cursor-default",
+                  is_current ? "font-semibold" : "text-muted-foreground",
+                  is_completed && "cls_wizard_step_completed",
+                  is_current && "cls_wizard_step_current"
+                )}
+                style={{ fontFamily: config.label_font_family }}
+              >
+                <span
+                  className={cn(
+                    "cls_wizard_step_number flex h-6 w-6 items-center justify-center rounded-full border text-xs",
+                    (is_current || is_completed) && "bg-primary text-primary-foreground border-primary"
+                  )}
+                >
+                  {is_completed ? "✓" : index + 1}
+                </span>
+                <span className="cls_wizard_step_title">{step.title}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+    </nav>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { HazoServices } from "../context/services_context";
+import type { FormValues } from "../lib/types";
+import { copy_plain_values, deep_equal } from "../lib/utils";
+import { is_empty_value, run_async_validator, type AsyncValidation } from "../lib/validation";
+
+/**
+ * The latest async check for a field (waiting on its debounce, in flight or settled)
+ */
+interface AsyncCheck {
+  value: unknown;
+  /** Copy of the form values the check was started with (validators may read other fields) */
+  values: FormValues;
+  promise: Promise<true | string>;
+  resolve: (result: true | string) => void;
+  controller: AbortController;
+  timer?: ReturnType<typeof setTimeout>;
+  started: boolean;
+  /** Start the check now, skipping the rest of the debounce */
+  run: () => void;
+}
+
+/**
+ * Async validation state shared by a form's Controllers
+ */
+export interface AsyncValidationState {
+  /** Build a react-hook-form validate function for a field's async validator */
+  get_validate: (
+    field_id: string,
+    validation: AsyncValidation
+  ) => (value: unknown, values: FormValues) => Promise<true | string>;
+  /** Field IDs with a check waiting on its debounce or in flight */
+  pending_field_ids: string[];
+  /** Run fn (e.g. a submit handler) with debounces skipped */
+  run_immediately: <T>(fn: () => Promise<T>) => Promise<T>;
+}
+
+/**
+ * Debounced async validators for react-hook-form
+ *
+ * Each field keeps only its latest check: a new value cancels the previous
+ * timer / request (its promise resolves as passing, and react-hook-form drops
+ * results for stale values). Re-validating an unchanged value reuses the
+ * pending or settled result while the other form values are unchanged too,
+ * so submit doesn't repeat a finished lookup.
+ */
+export function useAsyncValidation(services?: Partial<HazoServices>): AsyncValidationState {
+  const checks_ref = useRef(new Map<string, AsyncCheck>());
+  const immediate_ref = useRef(false);
+  const services_ref = useRef(services);
+  services_ref.current = services;
+  const [pending_field_ids, set_pending_field_ids] = useState<string[]>([]);
+
+  const set_pending = useCallback((field_id: string, pending: boolean) => {
+    set_pending_field_ids((ids) => {
+      if (ids.includes(field_id) === pending) return ids;
+      return pending ? [...ids, field_id] : ids.filter((id) => id !== field_id);
+    });
+  }, []);
+
+  // Cancel a field's current check; anything awaiting it sees a pass
+  const cancel_check = useCallback((field_id: string) => {
+    const check = checks_ref.current.get(field_id);
+    if (!check) return;
+    clearTimeout(check.timer);
+    check.controller.abort();
+    check.resolve(true);
+    checks_ref.current.delete(field_id);
+  }, []);
+
+  const get_validate = useCallback(
+    (field_id: string, validation: AsyncValidation) =>
+      (value: unknown, values: FormValues): Promise<true | string> => {
+        const existing = checks_ref.current.get(field_id);
+        if (existing && Object.is(existing.value, value) && deep_equal(existing.values, values)) {
+          if (immediate_ref.current) existing.run();
+          return existing.promise;
+        }
+
+        cancel_check(field_id);
+        if (is_empty_value(value)) {
+          set_pending(field_id, false);
+          return Promise.resolve(true);
+        }
+
+        let resolve!: (result: true | string) => void;
+        const promise = new Promise<true | string>((r) => {
+          resolve = r;
+        });
+        const controller = new AbortController();
+        const check: AsyncCheck = {
+          value,
+          values: copy_plain_values(values),
+          promise,
+          resolve,
+          controller,
+          started: false,
+          run: () => {
+            if (check.started) return;
+            check.started = true;
+            clearTimeout(check.timer);
+            run_async_validator(validation, value, {
+              field_id,
+              values,
+              services: services_ref.current,
+              signal: controller.signal,
+            }).then((result) => {
+              // Superseded checks were already resolved by cancel_check
+              if (controller.signal.aborted) return;
+              set_pending(field_id, false);
+              resolve(result);
+            });
+          },
+        };
+
+        checks_ref.current.set(field_id, check);
+        set_pending(field_id, true);
+        if (immediate_ref.current || validation.debounce_ms <= 0) {
+          check.run();
+        } else {
+          check.timer = setTimeout(check.run, validation.debounce_ms);
+        }
+        return promise;
+      },
+    [cancel_check, set_pending]
+  );
+
+  const run_immediately = useCallback(async <T>(fn: () => Promise<T>): Promise<T> => {
+    immediate_ref.current = true;
+    checks_ref.current.forEach((check) => check.run());
+    try {
+      return await fn();
+    } finally {
+      immediate_ref.current = false;
+    }
+  }, []);
+
+  // Cancel outstanding checks on unmount
+  useEffect(() => {
+    const checks = checks_ref.current;
+    return () => {
+      Array.from(checks.keys()).forEach(cancel_check);
+    };
+  }, [cancel_check]);
+
+  return { get_validate, pending_field_ids, run_immediately };
+}
@@ -0,0 +1,88 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useRef } from "react";
+import type { UseFormReturn } from "react-hook-form";
+import type { HazoServices } from "../context/services_context";
+import {
+  check_dependent_option_value,
+  check_dependent_row_cells,
+  get_option_dependents,
+  get_parent_value,
+} from "../lib/dependent_options";
+import { get_value_at_path } from "../lib/value_paths";
+import { deep_equal } from "../lib/utils";
+import type { FormSchema, FormValues } from "../lib/types";
+
+/**
+ * Clear dependent option values (standalone fields and table cells) when their parent changes
+ * Returns a handler to call with the changed field name and the current values
+ * A field's check still running when its parent changes again is aborted
+ */
+export function useDependentOptions(
+  schema: FormSchema,
+  form_methods: UseFormReturn<FormValues>,
+  services?: Partial<HazoServices>
+) {
+  const dependents = useMemo(() => get_option_dependents(schema), [schema]);
+  // The running check of each dependent field, by parent and field ID (a table's
+  // columns can depend on different form fields)
+  const controllers_ref = useRef(new Map<string, AbortController>());
+
+  useEffect(() => {
+    const controllers = controllers_ref.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  return useCallback(
+    (changed_name: string, values: FormValues) => {
+      const fields = dependents.get(changed_name);
+      if (!fields) return;
+
+      const parent_value = get_value_at_path(values, changed_name);
+      fields.forEach(async (field) => {
+        const current = get_value_at_path(values, field.id);
+        const controller_key = `${changed_name}\u0000${field.id}`;
+        controllers_ref.current.get(controller_key)?.abort();
+        const controller = new AbortController();
+        controllers_ref.current.set(controller_key, controller);
+        const context = {
+          field_id: field.id,
+          form_values: values,
+          services,
+          signal: controller.signal,
+        };
+
+        let next: unknown;
+        if (field.field_info.field_type === "table") {
+          const columns = field.field_info.table_columns ?? [];
+          const rows = Array.isArray(current) ? (current as Record<string, unknown>[]) : [];
+          const checked_rows = await Promise.all(
+            rows.map((row) => check_dependent_row_cells(columns, row, changed_name, context))
+          );
+          next = checked_rows.some((row, index) => row !== rows[index]) ? checked_rows : current;
+        } else {
+          next = await check_dependent_option_value(field.field_info, current, {
+            ...context,
+            parent_value: get_parent_value(field.field_info, values),
+          });
+        }
+        if (controllers_ref.current.get(controller_key) === controller) {
+          controllers_ref.current.delete(controller_key);
+        }
+        if (controller.signal.aborted || next === current) return;
+
+        // Leave it if the parent or the field was edited again while checking
+        // (watched values and getValues() may be different copies, so compare by content)
+        const latest = form_methods.getValues();
+        if (
+          !deep_equal(get_value_at_path(latest, changed_name), parent_value) ||
+          !deep_equal(get_value_at_path(latest, field.id), current)
+        ) {
+          return;
+        }
+        form_methods.setValue(field.id, next, { shouldDirty: true });
+      });
+    },
+    [dependents, form_methods, services]
+  );
+}
@@ -0,0 +1,43 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { get_value_at_path } from "../lib/value_paths";
+import type { FormValues } from "../lib/types";
+
+/**
+ * Watch other fields' values from inside a field renderer, keyed by field ID
+ * Returns an empty object outside a form (e.g. a standalone renderer)
+ */
+export function useFieldValues(field_ids: string[]): FormValues {
+  const form = useFormContext<FormValues>();
+  // The context object changes on every render; its methods don't
+  const watch = form?.watch;
+  const get_values = form?.getValues;
+  const ids_key = field_ids.join("\u0000");
+
+  const read_values = (values: FormValues): FormValues =>
+    Object.fromEntries(field_ids.map((field_id) => [field_id, get_value_at_path(values, field_id)]));
+
+  const [field_values, set_field_values] = useState<FormValues>(() =>
+    get_values ? read_values(get_values()) : {}
+  );
+
+  useEffect(() => {
+    if (!watch || !get_values || field_ids.length === 0) return;
+    set_field_values(read_values(get_values()));
+    const subscription = watch((values, { name }) => {
+      // Changes to a field, its parent object or array, or one of its nested values
+      const is_affected =
+        !name ||
+        field_ids.some((field_id) => field_id === name || field_id.startsWith(`${name}.`) || name.startsWith(`${field_id}.`));
+      if (is_affected) {
+        set_field_values(read_values(values as FormValues));
+      }
+    });
+    return () => subscription.unsubscribe();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [watch, get_values, ids_key]);
+
+  return field_values;
+}
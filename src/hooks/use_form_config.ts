@@ -252,6 +252,10 @@ function parse_ini_text(text: string): PartialFormConfig {
     config.default_currency_symbol = result.formatting.default_currency_symbol;
     config.date_format = result.formatting.date_format;
     config.percentage_suffix = result.formatting.percentage_suffix;
+    const rounding_mode = result.formatting.rounding_mode;
+    if (rounding_mode === "half_up" || rounding_mode === "half_even" || rounding_mode === "truncate") {
+      config.rounding_mode = rounding_mode;
+    }
     if (result.formatting.default_decimal_places) {
       config.default_decimal_places = parse_number(
         result.formatting.default_decimal_places,
@@ -274,6 +278,9 @@ function parse_ini_text(text: string): PartialFormConfig {
     if (result.features.validate_on_change) {
       config.validate_on_change = result.features.validate_on_change === "true";
     }
+    if (result.features.async_debounce_ms) {
+      config.async_debounce_ms = parse_number(result.features.async_debounce_ms, 400);
+    }
   }
 
   // File manager settings
@@ -306,6 +313,8 @@ function parse_ini_text(text: string): PartialFormConfig {
     config.section_header_background = result.colors.section_header_background;
     config.sub_section_header_color = result.colors.sub_section_header_color;
     config.error_color = result.colors.error_color;
+    config.warning_color = result.colors.warning_color;
+    config.info_color = result.colors.info_color;
     config.doc_link_icon_color = result.colors.doc_link_icon_color;
     config.doc_link_hover_color = result.colors.doc_link_hover_color;
     config.view_mode_background = result.colors.view_mode_background;
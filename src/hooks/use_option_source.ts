@@ -0,0 +1,203 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useFormContext } from "react-hook-form";
+import { useHazoServices } from "../context";
+import type { HazoServices } from "../context/services_context";
+import { get_cached, set_cached } from "../lib/lru_cache";
+import {
+  get_option_source_key,
+  load_option_page,
+  resolve_option_labels,
+  type OptionSourceContext,
+} from "../lib/option_sources";
+import type { FormValues, OptionItem, OptionSource } from "../lib/types";
+
+/** Milliseconds to wait after the last keystroke before searching */
+const SEARCH_DEBOUNCE_MS = 250;
+
+/** Most labels cached per services instance (least recently used are dropped) */
+const MAX_CACHED_LABELS = 1000;
+
+/**
+ * Labels of values seen so far, by source key and value, per services instance
+ * Shared by the fields using the same services (forms without services share
+ * one), so a value picked in one place shows its label everywhere
+ */
+const label_caches = new WeakMap<HazoServices, Map<string, string>>();
+const default_label_cache = new Map<string, string>();
+
+function get_label_cache(services: HazoServices | undefined): Map<string, string> {
+  if (!services) return default_label_cache;
+  let cache = label_caches.get(services);
+  if (!cache) {
+    cache = new Map();
+    label_caches.set(services, cache);
+  }
+  return cache;
+}
+
+function get_label_cache_key(source_key: string, value: string): string {
+  return `${source_key}\u0000${value}`;
+}
+
+function remember_labels(label_cache: Map<string, string>, source_key: string, options: OptionItem[]): void {
+  options.forEach((option) =>
+    set_cached(label_cache, get_label_cache_key(source_key, option.value), option.label, MAX_CACHED_LABELS)
+  );
+}
+
+/**
+ * Keep returning the same value while its key is unchanged, so a re-created
+ * object (e.g. a source built on every render) can be a hook dependency
+ */
+function useKeyedValue<T>(value: T, key: string): T {
+  const keyed_ref = useRef({ value, key });
+  if (keyed_ref.current.key !== key) {
+    keyed_ref.current = { value, key };
+  }
+  return keyed_ref.current.value;
+}
+
+/**
+ * Build the loading context from the form (when rendered inside one) and services
+ */
+function useOptionSourceContext(field_id: string, parent_value: unknown) {
+  const form = useFormContext<FormValues>();
+  const services = useHazoServices();
+  // Read through a ref: the form context object changes on every render
+  const latest_ref = useRef({ form, services });
+  latest_ref.current = { form, services };
+  // A new parent value means a new list
+  const stable_parent_value = useKeyedValue(parent_value, JSON.stringify(parent_value) ?? "");
+  return useCallback(
+    (signal: AbortSignal): OptionSourceContext => ({
+      field_id,
+      form_values: latest_ref.current.form?.getValues() ?? {},
+      parent_value: stable_parent_value,
+      services: latest_ref.current.services,
+      signal,
+    }),
+    [field_id, stable_parent_value]
+  );
+}
+
+/**
+ * Searchable, paged options of a source
+ */
+export interface OptionSourceState {
+  options: OptionItem[];
+  search: string;
+  set_search: (search: string) => void;
+  is_loading: boolean;
+  has_more: boolean;
+  /** Load the next page (no-op while loading or when there are no more) */
+  load_more: () => void;
+}
+
+/**
+ * Load a source's options a page at a time, re-searching (debounced) as the search changes
+ * Nothing is loaded until enabled (e.g. when the combobox opens); a dependent
+ * field's list reloads when its parent_value changes
+ */
+export function useOptionSource(
+  source: OptionSource | undefined,
+  field_id: string,
+  enabled: boolean,
+  parent_value?: unknown
+): OptionSourceState {
+  const get_context = useOptionSourceContext(field_id, parent_value);
+  const label_cache = get_label_cache(useHazoServices());
+  // source is compared by key so a re-created schema object doesn't reload
+  const source_key = source ? get_option_source_key(source) : "";
+  const stable_source = useKeyedValue(source, source_key);
+  const [search, set_search] = useState("");
+  const [debounced_search, set_debounced_search] = useState("");
+  const [options, set_options] = useState<OptionItem[]>([]);
+  const [has_more, set_has_more] = useState(false);
+  const [is_loading, set_is_loading] = useState(false);
+  const controller_ref = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const timer = setTimeout(() => set_debounced_search(search), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [search]);
+
+  const load = useCallback(
+    (offset: number) => {
+      if (!stable_source) return;
+      controller_ref.current?.abort();
+      const controller = new AbortController();
+      controller_ref.current = controller;
+      set_is_loading(true);
+      load_option_page(stable_source, { search: debounced_search, offset }, get_context(controller.signal))
+        .then((page) => {
+          if (controller.signal.aborted) return;
+          remember_labels(label_cache, source_key, page.options);
+          set_options((prev) => (offset === 0 ? page.options : [...prev, ...page.options]));
+          set_has_more(page.has_more);
+        })
+        .finally(() => {
+          // A newer load owns the loading state; a cancelled latest load (e.g. closed) ends it
+          if (controller_ref.current === controller) {
+            set_is_loading(false);
+          }
+        });
+    },
+    [stable_source, source_key, debounced_search, get_context, label_cache]
+  );
+
+  useEffect(() => {
+    if (!enabled) return;
+    load(0);
+    return () => controller_ref.current?.abort();
+  }, [enabled, load]);
+
+  const load_more = useCallback(() => {
+    if (!is_loading && has_more) {
+      load(options.length);
+    }
+  }, [is_loading, has_more, load, options.length]);
+
+  return { options, search, set_search, is_loading, has_more, load_more };
+}
+
+/**
+ * Resolve the labels of stored values from a source (cached across fields)
+ * Returns a lookup that falls back to the value itself while loading or when unknown
+ * Labels resolved here are also kept by the hook, so they outlive cache eviction
+ */
+export function useOptionLabels(
+  source: OptionSource | undefined,
+  field_id: string,
+  values: string[],
+  parent_value?: unknown
+): (value: string) => string {
+  const get_context = useOptionSourceContext(field_id, parent_value);
+  const label_cache = get_label_cache(useHazoServices());
+  const source_key = source ? get_option_source_key(source) : "";
+  const stable_source = useKeyedValue(source, source_key);
+  const stable_values = useKeyedValue(values, values.join("\u0000"));
+  const [resolved_labels, set_resolved_labels] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (!stable_source) return;
+    const missing = stable_values.filter((value) => !label_cache.has(get_label_cache_key(source_key, value)));
+    if (missing.length === 0) return;
+    const controller = new AbortController();
+    resolve_option_labels(stable_source, missing, get_context(controller.signal)).then((resolved) => {
+      if (controller.signal.aborted) return;
+      remember_labels(label_cache, source_key, resolved);
+      set_resolved_labels((prev) => ({
+        ...prev,
+        ...Object.fromEntries(resolved.map((option) => [get_label_cache_key(source_key, option.value), option.label])),
+      }));
+    });
+    return () => controller.abort();
+  }, [stable_source, source_key, stable_values, get_context, label_cache]);
+
+  return (value: string) => {
+    const key = get_label_cache_key(source_key, value);
+    return get_cached(label_cache, key) ?? resolved_labels[key] ?? value;
+  };
+}
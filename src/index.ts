@@ -56,6 +56,7 @@ export {
   StaticTextField,
   SummaryRowField,
   MaskedField,
+  AddressField,
   register_field_renderer,
   get_field_renderer,
   resolve_field_type,
@@ -66,6 +67,23 @@ export {
 // Section renderers
 export { SectionRenderer, SubSectionRenderer } from "./components/section_renderer";
 
+// Validation summary
+export { ValidationSummary } from "./components/validation_summary";
+export type { ValidationSummaryProps } from "./components/validation_summary";
+export {
+  build_error_summary,
+  get_first_error_field_id,
+  find_field_location,
+  count_errors_by_section,
+} from "./lib/error_summary";
+export type { ErrorSummaryGroup, ErrorSummaryEntry, FieldLocation } from "./lib/error_summary";
+
+// Wizard layout
+export { WizardStepIndicator, WizardReview } from "./components/wizard";
+export type { WizardStepIndicatorProps, WizardReviewProps } from "./components/wizard";
+export { resolve_wizard_steps, get_step_field_ids, WIZARD_REVIEW_STEP_ID } from "./lib/wizard";
+export type { ResolvedWizardStep } from "./lib/wizard";
+
 // File Manager (new unified component)
 export {
   FileManager,
@@ -124,11 +142,17 @@ export type {
   DocLinkType,
   HelpTooltip,
   OptionItem,
+  OptionSource,
+  OtherOptionValue,
+  AddressValue,
   FieldType,
   BaseFieldType,
   TableColumn,
+  TableRowRule,
   FieldInfo,
   LabelPosition,
+  FieldCondition,
+  VisibilityCondition,
   StyleLevel,
   StyleVariant,
   StyleLevelConfig,
@@ -148,11 +172,20 @@ export type {
   SubSection,
   FormSection,
   FormSchema,
+  WizardStep,
+  WizardProgress,
   FormValues,
   FormMode,
   PdfPanelPosition,
   DocLinkClickEvent,
   FormErrors,
+  ValidationRule,
+  ValidationSeverity,
+  ValidationMessage,
+  FieldWarning,
+  FormWarnings,
+  FormValidationResult,
+  RoundingMode,
   FormConfig,
   PartialFormConfig,
   // File upload types
@@ -201,3 +234,145 @@ export {
   uploaded_file_to_doc_link,
   uploads_to_doc_links,
 } from "./lib/utils";
+
+// Formula engine
+export {
+  parse_formula,
+  evaluate_formula_ast,
+  evaluate_expression,
+  get_formula_references,
+} from "./lib/formula_engine";
+export type {
+  FormulaValue,
+  FormulaNode,
+  FormulaBinaryOperator,
+  FormulaParseError,
+  FormulaParseResult,
+} from "./lib/formula_engine";
+export { build_computed_graph, get_affected_computed_fields } from "./lib/computed_graph";
+export type { ComputedGraph } from "./lib/computed_graph";
+export { apply_row_formulas, apply_table_formulas } from "./lib/table_formulas";
+
+// Decimal arithmetic
+export {
+  decimal_add,
+  decimal_subtract,
+  decimal_multiply,
+  decimal_divide,
+  decimal_sum,
+  round_decimal,
+  format_decimal,
+} from "./lib/decimal";
+
+// Validation (also available from "hazo_data_forms/server" for server-side use)
+export {
+  validate_values,
+  validate_values_async,
+  get_validation_warnings,
+  get_complete_section_names,
+  split_validation_result,
+  evaluate_validation_rules,
+  evaluate_validation_warnings,
+  get_field_validation_rules,
+  get_field_warning,
+  get_validation_severity,
+  get_async_validation,
+  get_table_cell_errors,
+  check_instance_count,
+} from "./lib/validation";
+export type { FieldValidationRules, AsyncValidation, TableCellError } from "./lib/validation";
+
+// Named validators (field type `validator` / `async_validator`)
+export {
+  register_validator,
+  get_validator,
+  has_validator,
+  get_registered_validators,
+  unregister_validator,
+  register_async_validator,
+  get_async_validator,
+  has_async_validator,
+  unregister_async_validator,
+} from "./lib/validator_registry";
+export type { FieldValidator, AsyncFieldValidator, AsyncValidatorContext } from "./lib/validator_registry";
+export {
+  tfn_checksum,
+  abn_checksum,
+  acn_checksum,
+  medicare_checksum,
+  bsb_format,
+} from "./lib/validators";
+
+// Conditional visibility (show_if / hide_if)
+export {
+  evaluate_condition,
+  is_item_visible,
+  get_condition_field_ids,
+  get_hidden_field_ids,
+  omit_hidden_values,
+} from "./lib/conditions";
+
+// Repeatable sub-sections
+export {
+  get_instance_field_id,
+  get_instance_defaults,
+  get_instance_label,
+} from "./lib/repeatable_sections";
+
+// Nested values (dotted field IDs)
+export { get_value_at_path, set_value_at_path } from "./lib/value_paths";
+
+// Option values (multi-value option fields store string arrays)
+export {
+  is_multi_option,
+  to_option_values,
+  format_option_value,
+  filter_options_by_parent,
+  prune_option_value,
+  OTHER_OPTION_VALUE,
+  is_other_option_value,
+  get_field_options,
+  get_other_text,
+  with_other_text,
+} from "./lib/options";
+
+// Option sources (searchable / lazily loaded options)
+export {
+  DEFAULT_OPTION_PAGE_SIZE,
+  register_option_loader,
+  get_option_loader,
+  has_option_loader,
+  unregister_option_loader,
+  get_option_source,
+  load_option_page,
+  resolve_option_labels,
+  find_valid_option_values,
+} from "./lib/option_sources";
+export type { OptionLoader, OptionLoaderRequest, OptionPage, OptionSourceContext } from "./lib/option_sources";
+export { useOptionSource, useOptionLabels } from "./hooks/use_option_source";
+
+// Address fields
+export {
+  AU_STATES,
+  DEFAULT_ADDRESS_COUNTRY,
+  to_address_value,
+  is_empty_address,
+  is_australian_address,
+  is_postcode_in_state,
+  check_address,
+  format_address,
+  copy_address,
+  is_same_address,
+} from "./lib/address";
+
+// Dependent (cascading) option lists
+export {
+  get_parent_value,
+  get_option_dependents,
+  check_dependent_option_value,
+  check_dependent_row_cells,
+} from "./lib/dependent_options";
+export type { OptionSourceState } from "./hooks/use_option_source";
+
+// Grid field groups
+export { get_grid_column_count, get_grid_item_style } from "./lib/grid_layout";
@@ -0,0 +1,95 @@
+import { describe, expect, it } from "vitest";
+import {
+  check_address,
+  copy_address,
+  format_address,
+  is_australian_address,
+  is_empty_address,
+  is_postcode_in_state,
+  is_same_address,
+} from "./address";
+
+const carlton = {
+  address_line_1: "12 Smith St",
+  address_line_2: "Unit 4",
+  suburb: "Carlton",
+  state: "VIC",
+  postcode: "3053",
+};
+
+describe("is_postcode_in_state", () => {
+  it("accepts postcodes within the state's ranges", () => {
+    expect(is_postcode_in_state("0800", "NT")).toBe(true);
+    expect(is_postcode_in_state("0200", "ACT")).toBe(true);
+    expect(is_postcode_in_state("2600", "ACT")).toBe(true);
+    expect(is_postcode_in_state("2000", "NSW")).toBe(true);
+    expect(is_postcode_in_state("3053", "vic")).toBe(true);
+    expect(is_postcode_in_state("8001", "VIC")).toBe(true);
+    expect(is_postcode_in_state("4000", "QLD")).toBe(true);
+    expect(is_postcode_in_state("5000", "SA")).toBe(true);
+    expect(is_postcode_in_state("6000", "WA")).toBe(true);
+    expect(is_postcode_in_state("7000", "TAS")).toBe(true);
+  });
+
+  it("rejects postcodes of another state, malformed postcodes and unknown states", () => {
+    expect(is_postcode_in_state("3053", "NSW")).toBe(false);
+    expect(is_postcode_in_state("2600", "NSW")).toBe(false);
+    expect(is_postcode_in_state("0800", "QLD")).toBe(false);
+    expect(is_postcode_in_state("800", "NT")).toBe(false);
+    expect(is_postcode_in_state("30533", "VIC")).toBe(false);
+    expect(is_postcode_in_state("3053", "XYZ")).toBe(false);
+  });
+});
+
+describe("check_address", () => {
+  it("passes complete addresses and empty ones", () => {
+    expect(check_address(carlton)).toBeUndefined();
+    expect(check_address({ ...carlton, state: "NT", postcode: "0800" })).toBeUndefined();
+    expect(check_address({})).toBeUndefined();
+    expect(check_address(undefined)).toBeUndefined();
+  });
+
+  it("lists the missing parts of a started address", () => {
+    expect(check_address({ suburb: "Carlton" })).toBe("Address: enter the street, state and postcode");
+    expect(check_address({ ...carlton, postcode: "" }, "Postal address")).toBe("Postal address: enter the postcode");
+  });
+
+  it("checks Australian postcodes against the state", () => {
+    expect(check_address({ ...carlton, postcode: "305" })).toBe("Postcode must be 4 digits");
+    expect(check_address({ ...carlton, state: "NSW" })).toBe("Postcode 3053 isn't in NSW");
+  });
+
+  it("doesn't need a state or 4-digit postcode outside Australia", () => {
+    expect(
+      check_address({ address_line_1: "1 High St", suburb: "London", postcode: "SW1A 1AA", country: "United Kingdom" })
+    ).toBeUndefined();
+  });
+});
+
+describe("address helpers", () => {
+  it("treats blank and Australia / AU countries as Australian", () => {
+    expect(is_australian_address(carlton)).toBe(true);
+    expect(is_australian_address({ country: " AU " })).toBe(true);
+    expect(is_australian_address({ country: "New Zealand" })).toBe(false);
+  });
+
+  it("counts whitespace-only parts as empty", () => {
+    expect(is_empty_address({ suburb: "  " })).toBe(true);
+    expect(is_empty_address("12 Smith St")).toBe(true);
+    expect(is_empty_address(carlton)).toBe(false);
+  });
+
+  it("formats on one line, adding the country outside Australia", () => {
+    expect(format_address(carlton)).toBe("12 Smith St, Unit 4, Carlton VIC 3053");
+    const auckland = { address_line_1: "1 Queen St", suburb: "Auckland", postcode: "1010", country: "New Zealand" };
+    expect(format_address(auckland)).toBe("1 Queen St, Auckland 1010, New Zealand");
+    expect(format_address({})).toBe("");
+  });
+
+  it("copies an address flagged same_as and compares parts", () => {
+    const copy = copy_address(carlton);
+    expect(copy.same_as).toBe(true);
+    expect(is_same_address(copy, carlton)).toBe(true);
+    expect(is_same_address(copy, { ...carlton, postcode: "3000" })).toBe(false);
+  });
+});
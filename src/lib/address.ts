@@ -0,0 +1,149 @@
+import type { AddressValue, OptionItem } from "./types";
+
+/**
+ * Address fields
+ * An address is stored as one AddressValue object (street lines, suburb, state,
+ * postcode, country). Australian addresses (country blank or Australia) pick
+ * the state from a preset list and have their postcode checked against it.
+ */
+
+/** Country assumed when an address's country is blank */
+export const DEFAULT_ADDRESS_COUNTRY = "Australia";
+
+/** Australian states and territories */
+export const AU_STATES: OptionItem[] = [
+  { label: "Australian Capital Territory", value: "ACT" },
+  { label: "New South Wales", value: "NSW" },
+  { label: "Northern Territory", value: "NT" },
+  { label: "Queensland", value: "QLD" },
+  { label: "South Australia", value: "SA" },
+  { label: "Tasmania", value: "TAS" },
+  { label: "Victoria", value: "VIC" },
+  { label: "Western Australia", value: "WA" },
+];
+
+/**
+ * Postcode ranges (inclusive) of each state, including PO box and large-user ranges
+ */
+const AU_POSTCODE_RANGES: Record<string, Array<[number, number]>> = {
+  ACT: [[200, 299], [2600, 2618], [2900, 2920]],
+  NSW: [[1000, 2599], [2619, 2899], [2921, 2999]],
+  NT: [[800, 999]],
+  QLD: [[4000, 4999], [9000, 9999]],
+  SA: [[5000, 5999]],
+  TAS: [[7000, 7999]],
+  VIC: [[3000, 3999], [8000, 8999]],
+  WA: [[6000, 6999]],
+};
+
+/** Address parts, in the order they're entered and formatted */
+const ADDRESS_PARTS = ["address_line_1", "address_line_2", "suburb", "state", "postcode", "country"] as const;
+
+/**
+ * Read a stored value as an address (anything that isn't an object gives an empty address)
+ */
+export function to_address_value(value: unknown): AddressValue {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return {};
+  return value as AddressValue;
+}
+
+/**
+ * Check whether an address has none of its parts filled in
+ */
+export function is_empty_address(value: unknown): boolean {
+  const address = to_address_value(value);
+  return ADDRESS_PARTS.every((part) => !address[part]?.trim());
+}
+
+/**
+ * Check whether an address is Australian (country blank or Australia / AU)
+ */
+export function is_australian_address(value: unknown): boolean {
+  const country = to_address_value(value).country?.trim().toLowerCase() ?? "";
+  return country === "" || country === "australia" || country === "au";
+}
+
+/**
+ * Check whether an Australian postcode belongs to a state
+ */
+export function is_postcode_in_state(postcode: string, state: string): boolean {
+  const ranges = AU_POSTCODE_RANGES[state.toUpperCase()];
+  if (!ranges || !/^\d{4}$/.test(postcode)) return false;
+  const num = Number(postcode);
+  return ranges.some(([min, max]) => num >= min && num <= max);
+}
+
+/**
+ * Check an address that has been started: street, suburb and postcode (and the
+ * state, for Australian addresses) must be filled in, and an Australian postcode
+ * must be 4 digits within the state
+ * Returns an error message, or undefined when the address is valid or empty
+ */
+export function check_address(value: unknown, label = "Address"): string | undefined {
+  if (is_empty_address(value)) return undefined;
+  const address = to_address_value(value);
+  const is_australian = is_australian_address(address);
+
+  const missing = [
+    !address.address_line_1?.trim() && "street",
+    !address.suburb?.trim() && "suburb",
+    is_australian && !address.state?.trim() && "state",
+    !address.postcode?.trim() && "postcode",
+  ].filter((part): part is string => !!part);
+  if (missing.length > 0) {
+    const parts = missing.length > 1 ? `${missing.slice(0, -1).join(", ")} and ${missing[missing.length - 1]}` : missing[0];
+    return `${label}: enter the ${parts}`;
+  }
+
+  if (is_australian) {
+    const postcode = address.postcode!.trim();
+    const state = address.state!.trim();
+    if (!/^\d{4}$/.test(postcode)) {
+      return "Postcode must be 4 digits";
+    }
+    if (!is_postcode_in_state(postcode, state)) {
+      return `Postcode ${postcode} isn't in ${state.toUpperCase()}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Format an address on one line, e.g. "12 Smith St, Unit 4, Carlton VIC 3053"
+ * The country is left out for Australian addresses; empty addresses give ""
+ */
+export function format_address(value: unknown): string {
+  const address = to_address_value(value);
+  const locality = [address.suburb, address.state, address.postcode]
+    .map((part) => part?.trim())
+    .filter(Boolean)
+    .join(" ");
+  const parts = [address.address_line_1, address.address_line_2, locality]
+    .map((part) => part?.trim())
+    .filter(Boolean);
+  if (!is_australian_address(address)) {
+    parts.push(address.country!.trim());
+  }
+  return parts.join(", ");
+}
+
+/**
+ * Copy an address for a "same as" toggle (the copy is flagged same_as)
+ */
+export function copy_address(source: unknown): AddressValue {
+  const address = to_address_value(source);
+  const copy: AddressValue = { same_as: true };
+  ADDRESS_PARTS.forEach((part) => {
+    if (address[part] !== undefined) copy[part] = address[part];
+  });
+  return copy;
+}
+
+/**
+ * Check whether two addresses have the same parts (ignoring same_as)
+ */
+export function is_same_address(a: unknown, b: unknown): boolean {
+  const first = to_address_value(a);
+  const second = to_address_value(b);
+  return ADDRESS_PARTS.every((part) => (first[part] ?? "") === (second[part] ?? ""));
+}
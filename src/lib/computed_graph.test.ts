@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { build_computed_graph, format_cycle_path, get_affected_computed_fields } from "./computed_graph";
+import type { FormField } from "./types";
+
+/**
+ * Build a computed field reading the given formula
+ */
+function computed(id: string, computed_formula: string, computed_dependencies?: string[]): FormField {
+  return {
+    id,
+    label: id,
+    field_info: { field_type: "computed", computed_formula, computed_dependencies },
+  };
+}
+
+describe("build_computed_graph", () => {
+  it("orders a chain by its dependencies, whatever the schema order", () => {
+    const graph = build_computed_graph([
+      computed("c", "b * 2"),
+      computed("b", "a + 1"),
+      computed("a", "income * 0.1"),
+    ]);
+    expect(graph.order).toEqual(["a", "b", "c"]);
+    expect(graph.cycles.size).toBe(0);
+  });
+
+  it("keeps schema order between independent fields", () => {
+    const graph = build_computed_graph([computed("y", "income"), computed("x", "income")]);
+    expect(graph.order).toEqual(["y", "x"]);
+  });
+
+  it("adds explicit computed_dependencies to the formula's references", () => {
+    const graph = build_computed_graph([computed("total", "base", ["adjustment"])]);
+    expect(Array.from(graph.dependencies.get("total")!)).toEqual(["base", "adjustment"]);
+    expect(Array.from(graph.dependents.get("adjustment")!)).toEqual(["total"]);
+  });
+
+  it("reports a direct cycle with the field itself", () => {
+    const graph = build_computed_graph([computed("a", "a + 1")]);
+    expect(graph.order).toEqual([]);
+    expect(graph.cycles.get("a")).toEqual(["a", "a"]);
+  });
+
+  it("reports an indirect cycle with every field on it", () => {
+    const graph = build_computed_graph([
+      computed("a", "c + 1"),
+      computed("b", "a + 1"),
+      computed("c", "b + 1"),
+    ]);
+    expect(graph.cycles.get("a")).toEqual(["a", "c", "b", "a"]);
+    expect(graph.cycles.get("b")).toEqual(["b", "a", "c", "b"]);
+    expect(graph.cycles.get("c")).toEqual(["c", "b", "a", "c"]);
+    expect(graph.order).toEqual([]);
+  });
+
+  it("still computes fields outside a cycle, downstream ones last", () => {
+    const graph = build_computed_graph([
+      computed("downstream", "a * 2"),
+      computed("a", "b + 1"),
+      computed("b", "a + 1"),
+      computed("total", "income + tax"),
+      computed("tax", "income * 0.3"),
+    ]);
+    expect(Array.from(graph.cycles.keys()).sort()).toEqual(["a", "b"]);
+    expect(graph.order).toEqual(["tax", "total", "downstream"]);
+  });
+});
+
+describe("get_affected_computed_fields", () => {
+  it("returns direct and transitive dependents in evaluation order", () => {
+    const graph = build_computed_graph([
+      computed("c", "b * 2"),
+      computed("b", "a + 1"),
+      computed("a", "income * 0.1"),
+      computed("other", "expenses"),
+    ]);
+    expect(get_affected_computed_fields(graph, "income")).toEqual(["a", "b", "c"]);
+    expect(get_affected_computed_fields(graph, "b")).toEqual(["c"]);
+    expect(get_affected_computed_fields(graph, "unrelated")).toEqual([]);
+  });
+});
+
+describe("format_cycle_path", () => {
+  it("joins the path with arrows", () => {
+    expect(format_cycle_path(["a", "b", "a"])).toBe("a → b → a");
+  });
+});
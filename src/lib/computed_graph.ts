@@ -0,0 +1,147 @@
+import type { FormField } from "./types";
+import { get_formula_references } from "./formula_engine";
+
+/**
+ * Dependency graph for computed fields
+ */
+export interface ComputedGraph {
+  /** Computed field IDs in evaluation order (dependencies before dependents) */
+  order: string[];
+  /** Field IDs each computed field reads (formula references + computed_dependencies) */
+  dependencies: Map<string, Set<string>>;
+  /** Computed field IDs that read each field ID directly */
+  dependents: Map<string, Set<string>>;
+  /** Computed fields on a circular reference, mapped to the cycle path (e.g. ["a", "b", "a"]) */
+  cycles: Map<string, string[]>;
+}
+
+/**
+ * Build the dependency graph for a list of computed fields
+ *
+ * Dependencies come from the formula's references, plus any explicit
+ * field_info.computed_dependencies. Evaluation order is a topological sort
+ * (Kahn's algorithm) that keeps schema order between independent fields.
+ * Fields on a cycle are reported in `cycles` and left out of `order`.
+ */
+export function build_computed_graph(computed_fields: FormField[]): ComputedGraph {
+  const computed_ids = computed_fields.map((field) => field.id);
+  const computed_id_set = new Set(computed_ids);
+  const dependencies = new Map<string, Set<string>>();
+  const dependents = new Map<string, Set<string>>();
+
+  computed_fields.forEach((field) => {
+    const refs = new Set<string>([
+      ...get_formula_references(field.field_info.computed_formula || ""),
+      ...(field.field_info.computed_dependencies || []),
+    ]);
+    dependencies.set(field.id, refs);
+    refs.forEach((ref) => {
+      if (!dependents.has(ref)) {
+        dependents.set(ref, new Set());
+      }
+      dependents.get(ref)!.add(field.id);
+    });
+  });
+
+  // Kahn's algorithm over computed -> computed edges
+  const in_degree = new Map<string, number>();
+  computed_ids.forEach((id) => {
+    const computed_refs = Array.from(dependencies.get(id) || []).filter(
+      (ref) => computed_id_set.has(ref) && ref !== id
+    );
+    in_degree.set(id, computed_refs.length + (dependencies.get(id)?.has(id) ? 1 : 0));
+  });
+
+  const order: string[] = [];
+  const ready = computed_ids.filter((id) => in_degree.get(id) === 0);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    dependents.get(id)?.forEach((dependent) => {
+      if (!computed_id_set.has(dependent) || dependent === id) return;
+      const remaining = (in_degree.get(dependent) || 0) - 1;
+      in_degree.set(dependent, remaining);
+      if (remaining === 0) {
+        ready.push(dependent);
+      }
+    });
+  }
+
+  // Anything not ordered is on a cycle or downstream of one
+  const cycles = new Map<string, string[]>();
+  const unresolved = computed_ids.filter((id) => !order.includes(id));
+  unresolved.forEach((id) => {
+    const path = find_cycle(id, dependencies, computed_id_set);
+    if (path) {
+      cycles.set(id, path);
+    }
+  });
+
+  // Downstream-only fields are still evaluated last (they read whatever the cycle holds)
+  unresolved.forEach((id) => {
+    if (!cycles.has(id)) {
+      order.push(id);
+    }
+  });
+
+  return { order, dependencies, dependents, cycles };
+}
+
+/**
+ * Find a path from a computed field back to itself, if one exists
+ */
+function find_cycle(
+  start: string,
+  dependencies: Map<string, Set<string>>,
+  computed_id_set: Set<string>
+): string[] | null {
+  const visited = new Set<string>();
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    for (const ref of dependencies.get(id) || []) {
+      if (ref === start) {
+        return [...path, ref];
+      }
+      if (computed_id_set.has(ref) && !visited.has(ref)) {
+        visited.add(ref);
+        const found = visit(ref, [...path, ref]);
+        if (found) return found;
+      }
+    }
+    return null;
+  };
+
+  return visit(start, [start]);
+}
+
+/**
+ * Get the computed fields that must be recalculated when a field changes,
+ * in evaluation order. Includes transitive dependents (computed fields that
+ * read other affected computed fields).
+ */
+export function get_affected_computed_fields(
+  graph: ComputedGraph,
+  changed_field_id: string
+): string[] {
+  const affected = new Set<string>();
+  const queue = [changed_field_id];
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    graph.dependents.get(id)?.forEach((dependent) => {
+      if (!affected.has(dependent)) {
+        affected.add(dependent);
+        queue.push(dependent);
+      }
+    });
+  }
+
+  return graph.order.filter((id) => affected.has(id));
+}
+
+/**
+ * Format a cycle path for display (e.g. "a → b → a")
+ */
+export function format_cycle_path(path: string[]): string {
+  return path.join(" → ");
+}
@@ -0,0 +1,283 @@
+import type {
+  FieldCondition,
+  FormField,
+  FormSchema,
+  FormValues,
+  VisibilityCondition,
+} from "./types";
+import { get_uploads_key } from "./utils";
+import { get_instance_fields, get_instances } from "./repeatable_sections";
+import { get_value_at_path } from "./value_paths";
+import { is_other_option_value } from "./options";
+
+/**
+ * Anything that can carry show_if / hide_if (section, sub-section or field)
+ */
+interface ConditionalItem {
+  show_if?: VisibilityCondition;
+  hide_if?: VisibilityCondition;
+}
+
+/**
+ * Check if a value counts as empty for condition purposes
+ */
+function is_empty_value(value: unknown): boolean {
+  if (value === undefined || value === null || value === "") return true;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * Compare two values loosely so "5" matches 5 and "true" matches true
+ * (schema authors write JSON literals, inputs often hold strings)
+ */
+function values_match(actual: unknown, expected: unknown): boolean {
+  // "Other, please specify" choices match on their option value
+  if (is_other_option_value(actual)) return values_match(actual.value, expected);
+  if (actual === expected) return true;
+  if (actual === undefined || actual === null || expected === undefined || expected === null) {
+    return false;
+  }
+  return String(actual) === String(expected);
+}
+
+/**
+ * Convert a value to a number for gt/gte/lt/lte, or null if not numeric
+ */
+function to_number(value: unknown): number | null {
+  if (typeof value === "number") return isNaN(value) ? null : value;
+  if (typeof value === "string" && value.trim() !== "") {
+    const num = Number(value);
+    return isNaN(num) ? null : num;
+  }
+  return null;
+}
+
+/**
+ * Evaluate a single field test against current values
+ */
+function evaluate_field_condition(
+  condition: FieldCondition,
+  values: FormValues
+): boolean {
+  const value = get_value_at_path(values, condition.field);
+  let has_operator = false;
+
+  if ("equals" in condition) {
+    has_operator = true;
+    if (!values_match(value, condition.equals)) return false;
+  }
+
+  if ("not_equals" in condition) {
+    has_operator = true;
+    if (values_match(value, condition.not_equals)) return false;
+  }
+
+  if (condition.in) {
+    has_operator = true;
+    if (!condition.in.some((item) => values_match(value, item))) return false;
+  }
+
+  if (condition.not_in) {
+    has_operator = true;
+    if (condition.not_in.some((item) => values_match(value, item))) return false;
+  }
+
+  if ("contains" in condition) {
+    has_operator = true;
+    if (!Array.isArray(value) || !value.some((item) => values_match(item, condition.contains))) return false;
+  }
+
+  if (condition.is_empty !== undefined) {
+    has_operator = true;
+    if (is_empty_value(value) !== condition.is_empty) return false;
+  }
+
+  const numeric_checks: Array<[number | undefined, (a: number, b: number) => boolean]> = [
+    [condition.gt, (a, b) => a > b],
+    [condition.gte, (a, b) => a >= b],
+    [condition.lt, (a, b) => a < b],
+    [condition.lte, (a, b) => a <= b],
+  ];
+  for (const [target, compare] of numeric_checks) {
+    if (target === undefined) continue;
+    has_operator = true;
+    const num = to_number(value);
+    if (num === null || !compare(num, target)) return false;
+  }
+
+  // Bare { field } means "field has a truthy value"
+  if (!has_operator) {
+    return !is_empty_value(value) && value !== false && value !== "false";
+  }
+
+  return true;
+}
+
+/**
+ * Evaluate a visibility condition against current form values
+ *
+ * Supported shapes:
+ * - { field, equals | not_equals | in | not_in | contains | gt | gte | lt | lte | is_empty }
+ * - { all: [...] } - every nested condition must pass
+ * - { any: [...] } - at least one nested condition must pass
+ * - { not: condition } - negates the nested condition
+ */
+export function evaluate_condition(
+  condition: VisibilityCondition,
+  values: FormValues
+): boolean {
+  if ("all" in condition) {
+    return condition.all.every((c) => evaluate_condition(c, values));
+  }
+  if ("any" in condition) {
+    return condition.any.some((c) => evaluate_condition(c, values));
+  }
+  if ("not" in condition) {
+    return !evaluate_condition(condition.not, values);
+  }
+  return evaluate_field_condition(condition, values);
+}
+
+/**
+ * Check if a section, sub-section or field is visible for the given values
+ * show_if must pass (when set) and hide_if must not pass (when set)
+ */
+export function is_item_visible(item: ConditionalItem, values: FormValues): boolean {
+  if (item.show_if && !evaluate_condition(item.show_if, values)) {
+    return false;
+  }
+  if (item.hide_if && evaluate_condition(item.hide_if, values)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Collect the field IDs referenced by a condition
+ */
+function collect_condition_refs(condition: VisibilityCondition, refs: Set<string>): void {
+  if ("all" in condition) {
+    condition.all.forEach((c) => collect_condition_refs(c, refs));
+  } else if ("any" in condition) {
+    condition.any.forEach((c) => collect_condition_refs(c, refs));
+  } else if ("not" in condition) {
+    collect_condition_refs(condition.not, refs);
+  } else {
+    refs.add(condition.field);
+  }
+}
+
+/**
+ * Get every field ID referenced by show_if / hide_if anywhere in the schema
+ * Used to subscribe only to the values that can change visibility
+ */
+export function get_condition_field_ids(schema: FormSchema): string[] {
+  const refs = new Set<string>();
+  const collect = (item: ConditionalItem) => {
+    if (item.show_if) collect_condition_refs(item.show_if, refs);
+    if (item.hide_if) collect_condition_refs(item.hide_if, refs);
+  };
+
+  schema.forEach((section) => {
+    collect(section);
+    section.sub_sections.forEach((sub_section) => {
+      collect(sub_section);
+      sub_section.field_group.fields.forEach(collect);
+    });
+  });
+
+  return Array.from(refs);
+}
+
+/**
+ * Get the IDs of all fields that are currently hidden, either directly or
+ * because their section / sub-section is hidden. Paired fields follow their parent.
+ *
+ * A hidden repeatable sub-section hides its array (sub_section_id). In visible
+ * ones, each instance's fields are checked against the form values overlaid with
+ * the instance's values, and hidden ones are listed by instance path.
+ */
+export function get_hidden_field_ids(schema: FormSchema, values: FormValues): Set<string> {
+  const hidden = new Set<string>();
+
+  const hide_field = (field: FormField) => {
+    hidden.add(field.id);
+    if (field.paired_field) {
+      hidden.add(field.paired_field.id);
+    }
+  };
+
+  schema.forEach((section) => {
+    const section_visible = is_item_visible(section, values);
+    section.sub_sections.forEach((sub_section) => {
+      const sub_section_visible = section_visible && is_item_visible(sub_section, values);
+      if (sub_section.repeatable) {
+        if (!sub_section_visible) {
+          hidden.add(sub_section.sub_section_id);
+          return;
+        }
+        get_instances(values, sub_section).forEach((instance, index) => {
+          const instance_values = { ...values, ...instance };
+          get_instance_fields(sub_section, index).forEach((field, field_index) => {
+            if (!is_item_visible(sub_section.field_group.fields[field_index], instance_values)) {
+              hide_field(field);
+            }
+          });
+        });
+        return;
+      }
+      sub_section.field_group.fields.forEach((field) => {
+        if (!sub_section_visible || !is_item_visible(field, values)) {
+          hide_field(field);
+        }
+      });
+    });
+  });
+
+  return hidden;
+}
+
+/**
+ * Return a copy of values without hidden fields (and their uploads)
+ * Dotted field IDs are removed from the nested objects they address
+ */
+export function omit_hidden_values(values: FormValues, hidden_field_ids: Set<string>): FormValues {
+  if (hidden_field_ids.size === 0) {
+    return values;
+  }
+
+  let result: FormValues = { ...values };
+  hidden_field_ids.forEach((field_id) => {
+    if (field_id in result || !field_id.includes(".")) {
+      delete result[field_id];
+      delete result[get_uploads_key(field_id)];
+      return;
+    }
+    // Nested value path (dotted field ID, or "<sub_section_id>.<index>.<field_id>")
+    result = omit_path(result, field_id.split("."));
+    result = omit_path(result, get_uploads_key(field_id).split("."));
+  });
+  return result;
+}
+
+/**
+ * Return a copy of a nested value without the entry at path,
+ * copying only the objects / arrays along the path
+ */
+function omit_path<T>(value: T, path: string[]): T {
+  if (value === null || typeof value !== "object") {
+    return value;
+  }
+  const [key, ...rest] = path;
+  if (!(key in value)) {
+    return value;
+  }
+  const copy = (Array.isArray(value) ? [...value] : { ...value }) as Record<string, unknown>;
+  if (rest.length === 0) {
+    delete copy[key];
+  } else {
+    copy[key] = omit_path(copy[key], rest);
+  }
+  return copy as T;
+}
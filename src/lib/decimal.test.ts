@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  decimal_add,
+  decimal_divide,
+  decimal_modulo,
+  decimal_multiply,
+  decimal_subtract,
+  decimal_sum,
+  format_decimal,
+  get_rounding_mode,
+  round_decimal,
+} from "./decimal";
+import { evaluate_expression } from "./formula_engine";
+
+describe("decimal arithmetic", () => {
+  it("adds and subtracts without float error", () => {
+    expect(decimal_add(0.1, 0.2)).toBe(0.3);
+    expect(decimal_subtract(0.3, 0.1)).toBe(0.2);
+    expect(decimal_subtract(1, 0.9)).toBe(0.1);
+  });
+
+  it("multiplies, divides and takes remainders exactly", () => {
+    expect(decimal_multiply(1.1, 3)).toBe(3.3);
+    expect(decimal_multiply(0.07, 100)).toBe(7);
+    expect(decimal_divide(0.3, 0.1)).toBe(3);
+    expect(decimal_divide(1, 3)).toBeCloseTo(0.3333333333, 10);
+    expect(decimal_modulo(5.5, 2)).toBe(1.5);
+    expect(decimal_modulo(-5.5, 2)).toBe(-1.5);
+  });
+
+  it("follows JS semantics for division by zero", () => {
+    expect(decimal_divide(1, 0)).toBe(Infinity);
+    expect(decimal_divide(0, 0)).toBeNaN();
+    expect(decimal_modulo(1, 0)).toBeNaN();
+  });
+
+  it("sums a list", () => {
+    expect(decimal_sum([0.1, 0.2, 0.3])).toBe(0.6);
+    expect(decimal_sum([])).toBe(0);
+  });
+});
+
+describe("round_decimal", () => {
+  it("rounds halves away from zero with half_up", () => {
+    expect(round_decimal(1.005, 2)).toBe(1.01);
+    expect(round_decimal(2.345, 2, "half_up")).toBe(2.35);
+    expect(round_decimal(-2.345, 2, "half_up")).toBe(-2.35);
+    expect(round_decimal(2.5, 0, "half_up")).toBe(3);
+  });
+
+  it("rounds ties to the even digit with half_even", () => {
+    expect(round_decimal(2.345, 2, "half_even")).toBe(2.34);
+    expect(round_decimal(2.355, 2, "half_even")).toBe(2.36);
+    expect(round_decimal(0.5, 0, "half_even")).toBe(0);
+    expect(round_decimal(1.5, 0, "half_even")).toBe(2);
+    expect(round_decimal(2.5, 0, "half_even")).toBe(2);
+    expect(round_decimal(-2.5, 0, "half_even")).toBe(-2);
+    // Not a tie: above the half rounds up
+    expect(round_decimal(2.3451, 2, "half_even")).toBe(2.35);
+  });
+
+  it("drops extra digits with truncate", () => {
+    expect(round_decimal(2.349, 2, "truncate")).toBe(2.34);
+    expect(round_decimal(-2.349, 2, "truncate")).toBe(-2.34);
+  });
+
+  it("rounds to tens with negative places", () => {
+    expect(round_decimal(1234.5, -1)).toBe(1230);
+    expect(round_decimal(1235, -1)).toBe(1240);
+  });
+
+  it("leaves values with fewer places and non-finite values alone", () => {
+    expect(round_decimal(1.5, 2)).toBe(1.5);
+    expect(round_decimal(Infinity, 2)).toBe(Infinity);
+  });
+
+  it("rounds ROUND() in formulas exactly", () => {
+    expect(evaluate_expression("ROUND(1.005, 2)", {})).toBe(1.01);
+    expect(evaluate_expression("ROUND(a * b, 2)", { a: 1.15, b: 3 })).toBe(3.45);
+  });
+});
+
+describe("format_decimal", () => {
+  it("pads and rounds like toFixed without float error", () => {
+    expect(format_decimal(1.005, 2)).toBe("1.01");
+    expect(format_decimal(1.5, 2)).toBe("1.50");
+    expect(format_decimal(2.345, 2, "half_even")).toBe("2.34");
+    expect(format_decimal(12, 0)).toBe("12");
+  });
+
+  it("doesn't show negative zero", () => {
+    expect(format_decimal(-0.001, 2)).toBe("0.00");
+  });
+});
+
+describe("get_rounding_mode", () => {
+  it("prefers the field, then the config, then half_up", () => {
+    expect(get_rounding_mode({ rounding_mode: "truncate" }, { rounding_mode: "half_even" })).toBe("truncate");
+    expect(get_rounding_mode({}, { rounding_mode: "half_even" })).toBe("half_even");
+    expect(get_rounding_mode(undefined)).toBe("half_up");
+  });
+});
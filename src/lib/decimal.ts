@@ -0,0 +1,212 @@
+import type { FieldInfo, FormConfig, RoundingMode } from "./types";
+
+/**
+ * Exact decimal arithmetic for money calculations
+ *
+ * Numbers are converted to scaled integers (BigInt digits + decimal scale) via
+ * their shortest string form, so 0.1 + 0.2 is exactly 0.3 and 1.005 rounds to
+ * 1.01. Results are converted back to JS numbers for storage in form values.
+ */
+
+/**
+ * Scaled integer: value = digits / 10^scale
+ */
+interface ScaledDecimal {
+  digits: bigint;
+  scale: number;
+}
+
+/** Extra digits kept when a division doesn't terminate */
+const DIVISION_PRECISION = 20;
+
+/**
+ * Convert a finite number to a scaled integer
+ * Handles exponent notation (1e-7, 1.5e+21)
+ */
+function to_scaled(value: number): ScaledDecimal {
+  const [mantissa, exponent_str] = value.toString().toLowerCase().split("e");
+  const exponent = exponent_str ? parseInt(exponent_str, 10) : 0;
+  const negative = mantissa.startsWith("-");
+  const [int_part, frac_part = ""] = mantissa.replace("-", "").split(".");
+
+  let digits = BigInt(int_part + frac_part);
+  let scale = frac_part.length - exponent;
+  if (scale < 0) {
+    digits *= BigInt(10) ** BigInt(-scale);
+    scale = 0;
+  }
+  return { digits: negative ? -digits : digits, scale };
+}
+
+/**
+ * Convert a scaled integer back to a number
+ */
+function from_scaled({ digits, scale }: ScaledDecimal): number {
+  return Number(scaled_to_string(digits, scale));
+}
+
+/**
+ * Render scaled digits as a plain decimal string (no exponent)
+ */
+function scaled_to_string(digits: bigint, scale: number): string {
+  const negative = digits < BigInt(0);
+  const abs = (negative ? -digits : digits).toString().padStart(scale + 1, "0");
+  const int_part = abs.slice(0, abs.length - scale);
+  const frac_part = scale > 0 ? `.${abs.slice(abs.length - scale)}` : "";
+  return `${negative ? "-" : ""}${int_part}${frac_part}`;
+}
+
+/**
+ * Bring two scaled integers to the same scale
+ */
+function align(a: ScaledDecimal, b: ScaledDecimal): [bigint, bigint, number] {
+  const scale = Math.max(a.scale, b.scale);
+  return [
+    a.digits * BigInt(10) ** BigInt(scale - a.scale),
+    b.digits * BigInt(10) ** BigInt(scale - b.scale),
+    scale,
+  ];
+}
+
+/**
+ * Divide scaled digits by a power of ten, rounding the discarded digits
+ */
+function round_digits(digits: bigint, drop: number, mode: RoundingMode): bigint {
+  if (drop <= 0) return digits;
+  const divisor = BigInt(10) ** BigInt(drop);
+  const quotient = digits / divisor; // BigInt division truncates toward zero
+  const remainder = digits % divisor;
+  if (remainder === BigInt(0) || mode === "truncate") return quotient;
+
+  const sign = digits < BigInt(0) ? BigInt(-1) : BigInt(1);
+  const twice_remainder = (remainder < BigInt(0) ? -remainder : remainder) * BigInt(2);
+  if (twice_remainder > divisor) return quotient + sign;
+  if (twice_remainder < divisor) return quotient;
+  // Exactly half
+  if (mode === "half_even") {
+    return quotient % BigInt(2) === BigInt(0) ? quotient : quotient + sign;
+  }
+  return quotient + sign;
+}
+
+/**
+ * Check both operands can go through exact arithmetic
+ */
+function both_finite(a: number, b: number): boolean {
+  return isFinite(a) && isFinite(b);
+}
+
+/**
+ * Add two numbers exactly
+ */
+export function decimal_add(a: number, b: number): number {
+  if (!both_finite(a, b)) return a + b;
+  const [x, y, scale] = align(to_scaled(a), to_scaled(b));
+  return from_scaled({ digits: x + y, scale });
+}
+
+/**
+ * Subtract b from a exactly
+ */
+export function decimal_subtract(a: number, b: number): number {
+  if (!both_finite(a, b)) return a - b;
+  const [x, y, scale] = align(to_scaled(a), to_scaled(b));
+  return from_scaled({ digits: x - y, scale });
+}
+
+/**
+ * Multiply two numbers exactly
+ */
+export function decimal_multiply(a: number, b: number): number {
+  if (!both_finite(a, b)) return a * b;
+  const x = to_scaled(a);
+  const y = to_scaled(b);
+  return from_scaled({ digits: x.digits * y.digits, scale: x.scale + y.scale });
+}
+
+/**
+ * Divide a by b, exact to 20 decimal places (half-even beyond that)
+ * Division by zero follows JS semantics (Infinity / NaN)
+ */
+export function decimal_divide(a: number, b: number): number {
+  if (!both_finite(a, b) || b === 0) return a / b;
+  const [x, y] = align(to_scaled(a), to_scaled(b));
+  // Keep one extra digit so the last place can be rounded
+  const shifted = (x * BigInt(10) ** BigInt(DIVISION_PRECISION + 1)) / y;
+  const digits = round_digits(shifted, 1, "half_even");
+  return from_scaled({ digits, scale: DIVISION_PRECISION });
+}
+
+/**
+ * Remainder of a / b (sign follows a, like JS %)
+ */
+export function decimal_modulo(a: number, b: number): number {
+  if (!both_finite(a, b) || b === 0) return a % b;
+  const [x, y, scale] = align(to_scaled(a), to_scaled(b));
+  return from_scaled({ digits: x % y, scale });
+}
+
+/**
+ * Sum a list of numbers exactly
+ */
+export function decimal_sum(values: number[]): number {
+  return values.reduce((sum, value) => decimal_add(sum, value), 0);
+}
+
+/**
+ * Round a number to a number of decimal places
+ *
+ * Modes:
+ * - half_up: halves round away from zero (2.345 -> 2.35, -2.345 -> -2.35)
+ * - half_even: halves round to the even digit, aka banker's rounding (2.345 -> 2.34)
+ * - truncate: extra digits are dropped (2.349 -> 2.34)
+ */
+export function round_decimal(
+  value: number,
+  decimal_places: number,
+  mode: RoundingMode = "half_up"
+): number {
+  if (!isFinite(value)) return value;
+  const places = Math.trunc(decimal_places);
+  const scaled = to_scaled(value);
+  const drop = scaled.scale - places;
+  if (drop <= 0) return value;
+  const digits = round_digits(scaled.digits, drop, mode);
+  // Negative places round to tens, hundreds, ...
+  return places >= 0
+    ? from_scaled({ digits, scale: places })
+    : from_scaled({ digits: digits * BigInt(10) ** BigInt(-places), scale: 0 });
+}
+
+/**
+ * Format a number with a fixed number of decimal places, like toFixed()
+ * but without float rounding errors (1.005 -> "1.01" with half_up)
+ */
+export function format_decimal(
+  value: number,
+  decimal_places: number,
+  mode: RoundingMode = "half_up"
+): string {
+  if (!isFinite(value)) return String(value);
+  const places = Math.max(0, Math.trunc(decimal_places));
+  const scaled = to_scaled(value);
+  const drop = scaled.scale - places;
+  const digits =
+    drop > 0
+      ? round_digits(scaled.digits, drop, mode)
+      : scaled.digits * BigInt(10) ** BigInt(-drop);
+  const result = scaled_to_string(digits, places);
+  // Avoid "-0.00"
+  return /^-[0.]+$/.test(result) ? result.slice(1) : result;
+}
+
+/**
+ * Resolve the rounding mode for a field: field_info.rounding_mode,
+ * then config.rounding_mode, then half_up
+ */
+export function get_rounding_mode(
+  field_info: Pick<FieldInfo, "rounding_mode"> | undefined,
+  config?: Pick<FormConfig, "rounding_mode">
+): RoundingMode {
+  return field_info?.rounding_mode ?? config?.rounding_mode ?? "half_up";
+}
@@ -0,0 +1,109 @@
+import type { FieldInfo, FormField, FormSchema, FormValues, TableColumn } from "./types";
+import { filter_options_by_parent, get_field_options, prune_option_value, to_option_values } from "./options";
+import { find_valid_option_values, get_option_source, type OptionSourceContext } from "./option_sources";
+import { get_value_at_path } from "./value_paths";
+
+/**
+ * Dependent (cascading) option lists
+ * An option field with depends_on offers only the options for its parent's value
+ * (state -> suburb). When the parent changes, selections the new parent no longer
+ * offers are cleared, which in turn re-checks the fields depending on the cleared one.
+ */
+
+/**
+ * Get the parent value of a dependent option field ("" while the parent is empty)
+ * Returns undefined when the field has no depends_on
+ * For table cells, pass the form values overlaid with the row so sibling columns win
+ */
+export function get_parent_value(field_info: Pick<FieldInfo, "depends_on">, values: FormValues): unknown {
+  if (!field_info.depends_on) return undefined;
+  return get_value_at_path(values, field_info.depends_on) ?? "";
+}
+
+/**
+ * Get the option fields and table fields that depend on each field ID
+ * Table fields are listed under form fields their columns depend on (sibling
+ * column dependencies are handled inside the table)
+ */
+export function get_option_dependents(schema: FormSchema): Map<string, FormField[]> {
+  const dependents = new Map<string, FormField[]>();
+  const add = (parent_id: string, field: FormField) => {
+    const fields = dependents.get(parent_id) ?? [];
+    if (!fields.includes(field)) fields.push(field);
+    dependents.set(parent_id, fields);
+  };
+
+  schema.forEach((section) => {
+    section.sub_sections.forEach((sub_section) => {
+      // Instance fields are stored by instance path, not the schema field ID
+      if (sub_section.repeatable) return;
+      sub_section.field_group.fields.forEach((field) => {
+        if (field.field_info.field_type === "option" && field.field_info.depends_on) {
+          add(field.field_info.depends_on, field);
+        }
+        const columns = field.field_info.table_columns ?? [];
+        columns.forEach((column) => {
+          const parent_id = column.field_info.depends_on;
+          if (parent_id && !columns.some((sibling) => sibling.id === parent_id)) {
+            add(parent_id, field);
+          }
+        });
+      });
+    });
+  });
+
+  return dependents;
+}
+
+/**
+ * Check a dependent option field's value against its parent value
+ * Returns the value with selections the parent no longer offers removed (the same
+ * value when all are still valid). Loader and db sources are asked for the stored
+ * values; when they can't answer, the value is kept.
+ */
+export async function check_dependent_option_value(
+  field_info: Pick<FieldInfo, "options" | "option_source" | "option_display" | "multiple" | "allow_other">,
+  value: unknown,
+  context: OptionSourceContext
+): Promise<unknown> {
+  const selected = to_option_values(value);
+  if (selected.length === 0) return value;
+
+  const source = get_option_source(field_info);
+  if (!source || source.type === "static") {
+    const options = filter_options_by_parent(
+      source ? source.options : get_field_options(field_info),
+      context.parent_value
+    );
+    return prune_option_value(field_info, value, options.map((option) => option.value));
+  }
+
+  const valid_values = await find_valid_option_values(source, selected, context);
+  return valid_values ? prune_option_value(field_info, value, valid_values) : value;
+}
+
+/**
+ * Re-check a table row's option cells that depend on a changed field (a sibling
+ * column or a form field), then the cells depending on any cleared cell
+ * Returns the same row when nothing was cleared
+ */
+export async function check_dependent_row_cells(
+  columns: TableColumn[],
+  row: Record<string, unknown>,
+  changed_id: string,
+  context: Omit<OptionSourceContext, "parent_value">
+): Promise<Record<string, unknown>> {
+  let result = row;
+  for (const column of columns) {
+    if (column.field_info.field_type !== "option" || column.field_info.depends_on !== changed_id) continue;
+    const cell_value = result[column.id];
+    const checked = await check_dependent_option_value(column.field_info, cell_value, {
+      ...context,
+      parent_value: get_parent_value(column.field_info, { ...context.form_values, ...result }),
+    });
+    if (checked !== cell_value) {
+      result = await check_dependent_row_cells(columns, { ...result, [column.id]: checked }, column.id, context);
+    }
+  }
+  return result;
+}
@@ -0,0 +1,191 @@
+import type { FormErrors, FormSchema, SubSection } from "./types";
+import { get_instance_label, parse_instance_field_id } from "./repeatable_sections";
+
+/**
+ * One error in the validation summary
+ */
+export interface ErrorSummaryEntry {
+  field_id: string;
+  /**
+   * Field label ("<label> (paired)" for paired fields, "<label> (<instance label>)" in
+   * repeatable sub-sections, the field ID if not in the schema)
+   */
+  label: string;
+  /** Field item code (e.g. "D1"), if any */
+  item_code?: string;
+  message: string;
+}
+
+/**
+ * Errors of one sub-section, in field order
+ */
+export interface ErrorSummaryGroup {
+  /** Section the errors belong to ("" for errors on fields not in the schema) */
+  section_name: string;
+  sub_section_id?: string;
+  sub_section_label?: string;
+  /** Sub-section item code (e.g. "10"), if any */
+  item_code?: string;
+  entries: ErrorSummaryEntry[];
+}
+
+/**
+ * Location of a field in the schema
+ */
+export interface FieldLocation {
+  section_name: string;
+  sub_section_id: string;
+}
+
+/**
+ * Group errors by section / sub-section in schema order
+ * Errors on IDs the schema doesn't know (e.g. external errors) are listed last
+ * in a group with an empty section_name. Repeatable sub-sections list their
+ * instance-count error, then instance field errors by instance.
+ */
+export function build_error_summary(schema: FormSchema, errors: FormErrors): ErrorSummaryGroup[] {
+  const groups: ErrorSummaryGroup[] = [];
+  const listed = new Set<string>();
+
+  schema.forEach((section) => {
+    section.sub_sections.forEach((sub_section) => {
+      const entries = sub_section.repeatable
+        ? get_instance_entries(schema, sub_section, errors)
+        : get_field_entries(sub_section, errors);
+      entries.forEach((entry) => listed.add(entry.field_id));
+
+      if (entries.length > 0) {
+        groups.push({
+          section_name: section.section_name,
+          sub_section_id: sub_section.sub_section_id,
+          sub_section_label: sub_section.sub_section_label,
+          item_code: sub_section.item_code,
+          entries,
+        });
+      }
+    });
+  });
+
+  const other_entries = Object.entries(errors)
+    .filter(([field_id, message]) => message && !listed.has(field_id))
+    .map(([field_id, message]) => ({ field_id, label: field_id, message }));
+  if (other_entries.length > 0) {
+    groups.push({ section_name: "", entries: other_entries });
+  }
+
+  return groups;
+}
+
+/**
+ * Errors of a sub-section's fields and paired fields, in field order
+ */
+function get_field_entries(sub_section: SubSection, errors: FormErrors): ErrorSummaryEntry[] {
+  const entries: ErrorSummaryEntry[] = [];
+  sub_section.field_group.fields.forEach((field) => {
+    if (errors[field.id]) {
+      entries.push({
+        field_id: field.id,
+        label: field.label || field.id,
+        item_code: field.field_info.item_code,
+        message: errors[field.id],
+      });
+    }
+    const paired_id = field.paired_field?.id;
+    if (paired_id && errors[paired_id]) {
+      entries.push({
+        field_id: paired_id,
+        label: `${field.label || field.id} (paired)`,
+        item_code: field.field_info.item_code,
+        message: errors[paired_id],
+      });
+    }
+  });
+  return entries;
+}
+
+/**
+ * Errors of a repeatable sub-section: the instance count, then each instance's fields
+ */
+function get_instance_entries(schema: FormSchema, sub_section: SubSection, errors: FormErrors): ErrorSummaryEntry[] {
+  const sub_section_id = sub_section.sub_section_id;
+  const entries: ErrorSummaryEntry[] = [];
+  if (errors[sub_section_id]) {
+    entries.push({
+      field_id: sub_section_id,
+      label: sub_section.sub_section_label || sub_section_id,
+      item_code: sub_section.item_code,
+      message: errors[sub_section_id],
+    });
+  }
+
+  const field_order = new Map<string, number>();
+  sub_section.field_group.fields.forEach((field, index) => {
+    field_order.set(field.id, index);
+    if (field.paired_field) field_order.set(field.paired_field.id, index);
+  });
+
+  const instance_entries: (ErrorSummaryEntry & { index: number; order: number })[] = [];
+  Object.entries(errors).forEach(([field_id, message]) => {
+    const location = message ? parse_instance_field_id(schema, field_id) : undefined;
+    if (location?.sub_section !== sub_section) return;
+    const order = field_order.get(location.field_id);
+    if (order === undefined) return;
+    const field = sub_section.field_group.fields[order];
+    const is_paired = field.paired_field?.id === location.field_id;
+    const label = `${field.label || field.id}${is_paired ? " (paired)" : ""}`;
+    instance_entries.push({
+      field_id,
+      label: `${label} (${get_instance_label(sub_section, location.index)})`,
+      item_code: field.field_info.item_code,
+      message,
+      index: location.index,
+      order: order * 2 + (is_paired ? 1 : 0),
+    });
+  });
+  instance_entries
+    .sort((a, b) => a.index - b.index || a.order - b.order)
+    .forEach(({ index: _index, order: _order, ...entry }) => entries.push(entry));
+
+  return entries;
+}
+
+/**
+ * Get the first error's field ID in schema order
+ */
+export function get_first_error_field_id(schema: FormSchema, errors: FormErrors): string | undefined {
+  return build_error_summary(schema, errors)[0]?.entries[0]?.field_id;
+}
+
+/**
+ * Count errors per section, keyed by section_name (errors outside the schema aren't counted)
+ */
+export function count_errors_by_section(schema: FormSchema, errors: FormErrors): Record<string, number> {
+  const counts: Record<string, number> = {};
+  Object.keys(errors).forEach((field_id) => {
+    const location = find_field_location(schema, field_id);
+    if (location) {
+      counts[location.section_name] = (counts[location.section_name] ?? 0) + 1;
+    }
+  });
+  return counts;
+}
+
+/**
+ * Find the section and sub-section containing a field (or paired field)
+ * For repeatable sub-sections, matches the sub-section ID and instance field paths
+ */
+export function find_field_location(schema: FormSchema, field_id: string): FieldLocation | undefined {
+  for (const section of schema) {
+    for (const sub_section of section.sub_sections) {
+      const found = sub_section.repeatable
+        ? field_id === sub_section.sub_section_id || parse_instance_field_id(schema, field_id)?.sub_section === sub_section
+        : sub_section.field_group.fields.some(
+            (field) => field.id === field_id || field.paired_field?.id === field_id
+          );
+      if (found) {
+        return { section_name: section.section_name, sub_section_id: sub_section.sub_section_id };
+      }
+    }
+  }
+  return undefined;
+}
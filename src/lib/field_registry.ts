@@ -9,6 +9,7 @@ import type {
   BaseFieldType,
   FieldTypesConfig,
   FieldUploads,
+  FieldWarning,
 } from "./types";
 
 /**
@@ -37,6 +38,10 @@ export interface FieldRendererProps {
   paired_on_blur?: () => void;
   /** Error for the paired field */
   paired_error?: string;
+  /** Non-blocking warning / info message (shown when there's no error) */
+  warning?: FieldWarning;
+  /** True while an async validator is checking the value */
+  is_validating?: boolean;
   /** Uploaded files for this field */
   field_uploads?: FieldUploads;
   /** Callback when upload icon is clicked */
@@ -190,6 +195,7 @@ export function is_base_field_type(field_type: string): field_type is BaseFieldT
     "computed",
     "static_text",
     "summary_row",
+    "address",
   ];
   return base_types.includes(field_type as BaseFieldType);
 }
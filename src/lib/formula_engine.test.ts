@@ -0,0 +1,188 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { evaluate_expression, get_formula_references, parse_formula } from "./formula_engine";
+
+describe("evaluate_expression", () => {
+  it("applies operator precedence and left associativity", () => {
+    expect(evaluate_expression("1 + 2 * 3", {})).toBe(7);
+    expect(evaluate_expression("(1 + 2) * 3", {})).toBe(9);
+    expect(evaluate_expression("10 - 4 - 3", {})).toBe(3);
+    expect(evaluate_expression("24 / 4 / 2", {})).toBe(3);
+    expect(evaluate_expression("10 - 7 % 4", {})).toBe(7);
+    expect(evaluate_expression("0.1 + 0.2", {})).toBe(0.3);
+  });
+
+  it("handles unary minus, plus and not", () => {
+    expect(evaluate_expression("-2 * 3", {})).toBe(-6);
+    expect(evaluate_expression("2 - -3", {})).toBe(5);
+    expect(evaluate_expression("--2", {})).toBe(2);
+    expect(evaluate_expression("-(1 + 2)", {})).toBe(-3);
+    expect(evaluate_expression("+'4'", {})).toBe(4);
+    expect(evaluate_expression("!0", {})).toBe(true);
+  });
+
+  it("compares numbers numerically and other values as strings", () => {
+    expect(evaluate_expression("income > 1000", { income: "1500" })).toBe(true);
+    expect(evaluate_expression("10 > 9", {})).toBe(true);
+    expect(evaluate_expression("'10' < '9'", {})).toBe(false);
+    expect(evaluate_expression("status = 'single'", { status: "single" })).toBe(true);
+    expect(evaluate_expression("status <> 'single'", { status: "married" })).toBe(true);
+    expect(evaluate_expression("missing == ''", {})).toBe(true);
+    expect(evaluate_expression("1 < 2 == true", {})).toBe(true);
+  });
+
+  it("evaluates logical operators below comparisons", () => {
+    expect(evaluate_expression("1 > 2 || 3 > 2", {})).toBe(true);
+    expect(evaluate_expression("1 < 2 && 3 < 2", {})).toBe(false);
+    expect(evaluate_expression("true || false && false", {})).toBe(true);
+    expect(evaluate_expression("age >= 18 ? 'adult' : 'minor'", { age: 20 })).toBe("adult");
+  });
+
+  it("reads nested values through dotted paths", () => {
+    expect(evaluate_expression("spouse.income * 2", { spouse: { income: 50 } })).toBe(100);
+  });
+
+  describe("IF", () => {
+    it("picks the branch by the condition", () => {
+      expect(evaluate_expression("IF(total > 10, 'big', 'small')", { total: 11 })).toBe("big");
+      expect(evaluate_expression("if(total > 10, 'big', 'small')", { total: 3 })).toBe("small");
+    });
+
+    it("returns null for a false condition without an else value", () => {
+      expect(evaluate_expression("IF(false, 1)", {})).toBeNull();
+    });
+
+    it("only evaluates the chosen branch", () => {
+      const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+      expect(evaluate_expression("IF(true, 1, NOPE())", {})).toBe(1);
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+  });
+
+  describe("invalid calls", () => {
+    let warn: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it("returns null and warns for unknown functions", () => {
+      expect(evaluate_expression("1 + NOPE(2)", {})).toBe(1);
+      expect(warn).toHaveBeenCalledWith('Unknown formula function "NOPE" at position 4');
+    });
+
+    it("returns null and warns for bad arguments", () => {
+      expect(evaluate_expression("IF(true)", {})).toBeNull();
+      expect(evaluate_expression("TABLE_SUM(items)", { items: [] })).toBeNull();
+      expect(evaluate_expression("TABLE_SUM(items, amount, type)", { items: [] })).toBeNull();
+      expect(warn).toHaveBeenCalledTimes(3);
+    });
+
+    it("returns null and warns for formulas that don't parse", () => {
+      expect(evaluate_expression("1 +", {})).toBeNull();
+      expect(warn).toHaveBeenCalledWith('Invalid formula "1 +": Unexpected end of formula at position 3');
+    });
+  });
+});
+
+describe("table functions", () => {
+  const values = {
+    line_items: [
+      { category: "Income", amount: 100 },
+      { category: "income", amount: "250.5" },
+      { category: "expense", amount: 40 },
+      { category: "expense", amount: "" },
+      { category: "other", amount: 1000 },
+    ],
+  };
+
+  it("aggregates a column over every row, ignoring empty cells", () => {
+    expect(evaluate_expression("TABLE_SUM(line_items, amount)", values)).toBe(1390.5);
+    expect(evaluate_expression("TABLE_COUNT(line_items)", values)).toBe(5);
+    expect(evaluate_expression("TABLE_AVG(line_items, amount)", values)).toBe(347.625);
+    expect(evaluate_expression("TABLE_MIN(line_items, amount)", values)).toBe(40);
+    expect(evaluate_expression("TABLE_MAX(line_items, amount)", values)).toBe(1000);
+  });
+
+  it("matches filter criteria regardless of case", () => {
+    expect(evaluate_expression("TABLE_SUM(line_items, amount, category, income)", values)).toBe(350.5);
+    expect(evaluate_expression("TABLE_COUNT(line_items, category, 'INCOME')", values)).toBe(2);
+  });
+
+  it("supports comparison criteria and several filters", () => {
+    expect(evaluate_expression("TABLE_SUM(line_items, amount, category, '<>expense')", values)).toBe(1350.5);
+    expect(evaluate_expression("TABLE_COUNT(line_items, amount, '>=100')", values)).toBe(3);
+    expect(
+      evaluate_expression("TABLE_SUM(line_items, amount, category, '!=expense', amount, '<1000')", values)
+    ).toBe(350.5);
+  });
+
+  it("returns no value for averages and extremes of no rows", () => {
+    expect(evaluate_expression("TABLE_SUM(line_items, amount, category, none)", values)).toBe(0);
+    expect(evaluate_expression("TABLE_COUNT(line_items, category, none)", values)).toBe(0);
+    expect(evaluate_expression("TABLE_AVG(line_items, amount, category, none)", values)).toBeNull();
+    expect(evaluate_expression("TABLE_MAX(line_items, amount, category, none)", values)).toBeNull();
+  });
+
+  it("returns null when the table field isn't a list of rows", () => {
+    expect(evaluate_expression("TABLE_SUM(missing, amount)", values)).toBeNull();
+  });
+});
+
+describe("parse_formula", () => {
+  it("reports parse errors with their zero-based position", () => {
+    expect(parse_formula("1 + * 2").error).toEqual({ message: 'Unexpected "*" at position 4', position: 4 });
+    expect(parse_formula("1 2").error).toEqual({ message: 'Unexpected "2" at position 2', position: 2 });
+    expect(parse_formula("(1 + 2").error).toEqual({
+      message: 'Expected ")" but formula ended at position 6',
+      position: 6,
+    });
+    expect(parse_formula("1 # 2").error).toEqual({
+      message: 'Unexpected character "#" at position 2',
+      position: 2,
+    });
+    expect(parse_formula("'abc").error).toEqual({ message: "Unterminated string at position 0", position: 0 });
+  });
+
+  it("returns the cached result for a repeated formula", () => {
+    const first = parse_formula("cache_hit + 1");
+    expect(parse_formula("cache_hit + 1")).toBe(first);
+  });
+
+  it("evicts the least recently used formula after 500 others", () => {
+    const kept = parse_formula("kept + 1");
+    const evicted = parse_formula("evicted + 1");
+    for (let i = 0; i < 498; i++) {
+      parse_formula(`filler_a${i} + 1`);
+    }
+    // Reading "kept" makes it the most recently used, so "evicted" goes first
+    expect(parse_formula("kept + 1")).toBe(kept);
+    parse_formula("filler_b + 1");
+
+    expect(parse_formula("kept + 1")).toBe(kept);
+    const reparsed = parse_formula("evicted + 1");
+    expect(reparsed).not.toBe(evicted);
+    expect(reparsed).toEqual(evicted);
+  });
+});
+
+describe("get_formula_references", () => {
+  it("collects field references once each", () => {
+    expect(get_formula_references("IF(a > b, a, c.d)").sort()).toEqual(["a", "b", "c.d"]);
+  });
+
+  it("only counts the table argument of table functions", () => {
+    expect(get_formula_references("TABLE_SUM(items, amount, type, IF(flag, 'a', 'b'))").sort()).toEqual([
+      "flag",
+      "items",
+    ]);
+  });
+
+  it("returns no references for formulas that don't parse", () => {
+    expect(get_formula_references("1 + * 2")).toEqual([]);
+  });
+});
@@ -0,0 +1,850 @@
+/**
+ * Formula engine for computed fields
+ *
+ * Formulas are tokenized, parsed into an AST and evaluated by walking the tree.
+ * Nothing is ever passed to eval / new Function.
+ *
+ * Grammar (lowest to highest precedence):
+ *   conditional  := or ( "?" conditional ":" conditional )?
+ *   or           := and ( "||" and )*
+ *   and          := equality ( "&&" equality )*
+ *   equality     := comparison ( ( "==" | "!=" ) comparison )*
+ *   comparison   := additive ( ( "<" | "<=" | ">" | ">=" ) additive )*
+ *   additive     := multiplicative ( ( "+" | "-" ) multiplicative )*
+ *   multiplicative := unary ( ( "*" | "/" | "%" ) unary )*
+ *   unary        := ( "-" | "+" | "!" ) unary | primary
+ *   primary      := number | string | true | false | null
+ *                 | identifier | identifier "(" args ")" | "(" conditional ")"
+ *
+ * Arithmetic uses exact decimal math (see decimal.ts), so 0.1 + 0.2 == 0.3.
+ * Identifiers may be dotted paths into nested values (spouse.income.salary).
+ */
+
+import {
+  decimal_add,
+  decimal_divide,
+  decimal_modulo,
+  decimal_multiply,
+  decimal_subtract,
+  decimal_sum,
+  round_decimal,
+} from "./decimal";
+import { get_value_at_path } from "./value_paths";
+import { get_cached, set_cached } from "./lru_cache";
+
+// =============================================================================
+// TYPES
+// =============================================================================
+
+/**
+ * Runtime value produced while evaluating a formula
+ */
+export type FormulaValue = number | string | boolean | null;
+
+/**
+ * Binary operators supported by the parser
+ */
+export type FormulaBinaryOperator =
+  | "+" | "-" | "*" | "/" | "%"
+  | "==" | "!=" | "<" | "<=" | ">" | ">="
+  | "&&" | "||";
+
+/**
+ * Formula AST node
+ * Every node records the character position it started at (zero-based)
+ */
+export type FormulaNode =
+  | { type: "number"; value: number; position: number }
+  | { type: "string"; value: string; position: number }
+  | { type: "boolean"; value: boolean; position: number }
+  | { type: "null"; position: number }
+  | { type: "identifier"; name: string; position: number }
+  | { type: "unary"; operator: "-" | "+" | "!"; operand: FormulaNode; position: number }
+  | { type: "binary"; operator: FormulaBinaryOperator; left: FormulaNode; right: FormulaNode; position: number }
+  | { type: "conditional"; test: FormulaNode; consequent: FormulaNode; alternate: FormulaNode; position: number }
+  | { type: "call"; name: string; args: FormulaNode[]; position: number };
+
+/**
+ * Parse error with the zero-based character position it occurred at
+ */
+export interface FormulaParseError {
+  message: string;
+  position: number;
+}
+
+/**
+ * Result of parsing a formula
+ */
+export interface FormulaParseResult {
+  /** Parsed AST (on success) */
+  ast?: FormulaNode;
+  /** Parse error (on failure) */
+  error?: FormulaParseError;
+}
+
+/**
+ * Context passed to formula functions
+ */
+export interface FormulaFunctionContext {
+  /** Form values the formula is evaluated against */
+  values: Record<string, unknown>;
+  /** Evaluate an argument node (lazy so IF can short-circuit) */
+  evaluate: (node: FormulaNode) => FormulaValue;
+}
+
+/**
+ * Formula function implementation
+ * Receives unevaluated argument nodes so functions can control evaluation
+ */
+export type FormulaFunction = (
+  args: FormulaNode[],
+  context: FormulaFunctionContext
+) => FormulaValue;
+
+// =============================================================================
+// TOKENIZER
+// =============================================================================
+
+type TokenType = "number" | "string" | "identifier" | "operator" | "eof";
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+}
+
+const TWO_CHAR_OPERATORS = ["==", "!=", "<=", ">=", "&&", "||", "<>"];
+const ONE_CHAR_OPERATORS = "+-*/%()<>!?:,";
+
+/**
+ * Create a parse error (thrown internally, caught by parse_formula)
+ */
+function parse_error(message: string, position: number): FormulaParseError {
+  return { message: `${message} at position ${position}`, position };
+}
+
+/**
+ * Split a formula into tokens
+ */
+function tokenize(formula: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < formula.length) {
+    const char = formula[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // Numbers: 12, 12.5, .5
+    if (/[0-9]/.test(char) || (char === "." && /[0-9]/.test(formula[i + 1] || ""))) {
+      const start = i;
+      while (i < formula.length && /[0-9]/.test(formula[i])) i++;
+      if (formula[i] === ".") {
+        i++;
+        while (i < formula.length && /[0-9]/.test(formula[i])) i++;
+      }
+      tokens.push({ type: "number", value: formula.slice(start, i), position: start });
+      continue;
+    }
+
+    // Identifiers and function names; dotted identifiers are nested value paths (spouse.income.salary)
+    if (/[A-Za-z_]/.test(char)) {
+      const start = i;
+      while (i < formula.length && /[A-Za-z0-9_]/.test(formula[i])) {
+        i++;
+        if (formula[i] === "." && /[A-Za-z0-9_]/.test(formula[i + 1] || "")) i++;
+      }
+      tokens.push({ type: "identifier", value: formula.slice(start, i), position: start });
+      continue;
+    }
+
+    // String literals in single or double quotes
+    if (char === '"' || char === "'") {
+      const start = i;
+      const quote = char;
+      let value = "";
+      i++;
+      while (i < formula.length && formula[i] !== quote) {
+        if (formula[i] === "\\" && i + 1 < formula.length) {
+          i++;
+        }
+        value += formula[i];
+        i++;
+      }
+      if (i >= formula.length) {
+        throw parse_error("Unterminated string", start);
+      }
+      i++;
+      tokens.push({ type: "string", value, position: start });
+      continue;
+    }
+
+    const two_chars = formula.slice(i, i + 2);
+    if (TWO_CHAR_OPERATORS.includes(two_chars)) {
+      // "<>" is accepted as a spreadsheet-style alias for "!="
+      tokens.push({ type: "operator", value: two_chars === "<>" ? "!=" : two_chars, position: i });
+      i += 2;
+      continue;
+    }
+
+    if (ONE_CHAR_OPERATORS.includes(char)) {
+      tokens.push({ type: "operator", value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // Single "=" is accepted as equality (spreadsheet style)
+    if (char === "=") {
+      tokens.push({ type: "operator", value: "==", position: i });
+      i++;
+      continue;
+    }
+
+    throw parse_error(`Unexpected character "${char}"`, i);
+  }
+
+  tokens.push({ type: "eof", value: "", position: formula.length });
+  return tokens;
+}
+
+// =============================================================================
+// PARSER
+// =============================================================================
+
+/**
+ * Recursive descent parser over the token list
+ */
+function parse_tokens(tokens: Token[]): FormulaNode {
+  let index = 0;
+
+  const peek = (): Token => tokens[index];
+  const next = (): Token => tokens[index++];
+  const is_operator = (value: string): boolean =>
+    peek().type === "operator" && peek().value === value;
+
+  const expect_operator = (value: string): Token => {
+    const token = peek();
+    if (token.type !== "operator" || token.value !== value) {
+      throw parse_error(
+        token.type === "eof"
+          ? `Expected "${value}" but formula ended`
+          : `Expected "${value}" but found "${token.value}"`,
+        token.position
+      );
+    }
+    return next();
+  };
+
+  const parse_binary_level = (
+    operators: FormulaBinaryOperator[],
+    parse_operand: () => FormulaNode
+  ): FormulaNode => {
+    let left = parse_operand();
+    while (peek().type === "operator" && operators.includes(peek().value as FormulaBinaryOperator)) {
+      const operator_token = next();
+      const right = parse_operand();
+      left = {
+        type: "binary",
+        operator: operator_token.value as FormulaBinaryOperator,
+        left,
+        right,
+        position: operator_token.position,
+      };
+    }
+    return left;
+  };
+
+  const parse_conditional = (): FormulaNode => {
+    const test = parse_or();
+    if (is_operator("?")) {
+      const question = next();
+      const consequent = parse_conditional();
+      expect_operator(":");
+      const alternate = parse_conditional();
+      return { type: "conditional", test, consequent, alternate, position: question.position };
+    }
+    return test;
+  };
+
+  const parse_or = (): FormulaNode => parse_binary_level(["||"], parse_and);
+  const parse_and = (): FormulaNode => parse_binary_level(["&&"], parse_equality);
+  const parse_equality = (): FormulaNode => parse_binary_level(["==", "!="], parse_comparison);
+  const parse_comparison = (): FormulaNode =>
+    parse_binary_level(["<", "<=", ">", ">="], parse_additive);
+  const parse_additive = (): FormulaNode => parse_binary_level(["+", "-"], parse_multiplicative);
+  const parse_multiplicative = (): FormulaNode =>
+    parse_binary_level(["*", "/", "%"], parse_unary);
+
+  const parse_unary = (): FormulaNode => {
+    if (is_operator("-") || is_operator("+") || is_operator("!")) {
+      const operator_token = next();
+      const operand = parse_unary();
+      return {
+        type: "unary",
+        operator: operator_token.value as "-" | "+" | "!",
+        operand,
+        position: operator_token.position,
+      };
+    }
+    return parse_primary();
+  };
+
+  const parse_primary = (): FormulaNode => {
+    const token = peek();
+
+    if (token.type === "number") {
+      next();
+      return { type: "number", value: parseFloat(token.value), position: token.position };
+    }
+
+    if (token.type === "string") {
+      next();
+      return { type: "string", value: token.value, position: token.position };
+    }
+
+    if (token.type === "identifier") {
+      next();
+      const lower = token.value.toLowerCase();
+
+      // Function call
+      if (is_operator("(")) {
+        next();
+        const args: FormulaNode[] = [];
+        if (!is_operator(")")) {
+          args.push(parse_conditional());
+          while (is_operator(",")) {
+            next();
+            args.push(parse_conditional());
+          }
+        }
+        expect_operator(")");
+        return { type: "call", name: token.value.toUpperCase(), args, position: token.position };
+      }
+
+      if (lower === "true" || lower === "false") {
+        return { type: "boolean", value: lower === "true", position: token.position };
+      }
+      if (lower === "null") {
+        return { type: "null", position: token.position };
+      }
+
+      return { type: "identifier", name: token.value, position: token.position };
+    }
+
+    if (is_operator("(")) {
+      next();
+      const expression = parse_conditional();
+      expect_operator(")");
+      return expression;
+    }
+
+    if (token.type === "eof") {
+      throw parse_error("Unexpected end of formula", token.position);
+    }
+    throw parse_error(`Unexpected "${token.value}"`, token.position);
+  };
+
+  const ast = parse_conditional();
+  const trailing = peek();
+  if (trailing.type !== "eof") {
+    throw parse_error(`Unexpected "${trailing.value}"`, trailing.position);
+  }
+  return ast;
+}
+
+/** Most parsed formulas kept (least recently used are dropped) */
+const MAX_CACHED_FORMULAS = 500;
+
+/**
+ * Cache of parsed formulas (schemas reuse the same formula strings on every change)
+ */
+const parse_cache: Map<string, FormulaParseResult> = new Map();
+
+/**
+ * Parse a formula into an AST
+ * Returns an error with the zero-based character position when the formula is invalid
+ */
+export function parse_formula(formula: string): FormulaParseResult {
+  const cached = get_cached(parse_cache, formula);
+  if (cached) {
+    return cached;
+  }
+
+  let result: FormulaParseResult;
+  try {
+    result = { ast: parse_tokens(tokenize(formula)) };
+  } catch (error) {
+    if (error && typeof error === "object" && "position" in error) {
+      result = { error: error as FormulaParseError };
+    } else {
+      result = {
+        error: {
+          message: error instanceof Error ? error.message : "Invalid formula",
+          position: 0,
+        },
+      };
+    }
+  }
+
+  set_cached(parse_cache, formula, result, MAX_CACHED_FORMULAS);
+  return result;
+}
+
+// =============================================================================
+// VALUE COERCION
+// =============================================================================
+
+/**
+ * Normalize a raw form value into a formula value
+ */
+function to_formula_value(value: unknown): FormulaValue {
+  if (value === undefined || value === null) return null;
+  if (typeof value === "number" || typeof value === "string" || typeof value === "boolean") {
+    return value;
+  }
+  return null;
+}
+
+/**
+ * Coerce a formula value to a number
+ * Empty values count as 0 (unfilled fields), non-numeric strings become NaN
+ */
+export function formula_to_number(value: FormulaValue): number {
+  if (value === null || value === "") return 0;
+  if (typeof value === "number") return value;
+  if (typeof value === "boolean") return value ? 1 : 0;
+  const trimmed = value.trim();
+  if (trimmed === "") return 0;
+  const num = Number(trimmed);
+  return isNaN(num) ? NaN : num;
+}
+
+/**
+ * Coerce a formula value to a boolean
+ */
+export function formula_to_boolean(value: FormulaValue): boolean {
+  if (value === null) return false;
+  if (typeof value === "boolean") return value;
+  if (typeof value === "number") return value !== 0 && !isNaN(value);
+  const lower = value.trim().toLowerCase();
+  return lower !== "" && lower !== "false" && lower !== "0" && lower !== "no";
+}
+
+/**
+ * Check if a value can be treated as a number for comparisons
+ */
+function is_numeric_like(value: FormulaValue): boolean {
+  if (value === null || typeof value === "boolean") return false;
+  if (typeof value === "number") return !isNaN(value);
+  return value.trim() !== "" && !isNaN(Number(value));
+}
+
+/**
+ * Compare two values: numerically when both are numeric, otherwise as strings
+ */
+function compare_values(left: FormulaValue, right: FormulaValue): number {
+  if (is_numeric_like(left) && is_numeric_like(right)) {
+    return formula_to_number(left) - formula_to_number(right);
+  }
+  if (
+    (left === null || left === "") && (right === null || right === "")
+  ) {
+    return 0;
+  }
+  if (typeof left === "boolean" || typeof right === "boolean") {
+    return Number(formula_to_boolean(left)) - Number(formula_to_boolean(right));
+  }
+  const left_str = left === null ? "" : String(left);
+  const right_str = right === null ? "" : String(right);
+  return left_str < right_str ? -1 : left_str > right_str ? 1 : 0;
+}
+
+// =============================================================================
+// FUNCTIONS
+// =============================================================================
+
+/**
+ * Evaluate numeric arguments, skipping empty values
+ */
+function evaluate_numeric_args(args: FormulaNode[], context: FormulaFunctionContext): number[] {
+  return args.map((arg) => formula_to_number(context.evaluate(arg)));
+}
+
+/**
+ * Resolve a table-function argument
+ * Bare identifiers are taken literally (table/column names, filter values)
+ * so TABLE_SUM(table, amount, type, yes) works without quotes
+ */
+export function resolve_name_argument(node: FormulaNode, context: FormulaFunctionContext): string {
+  if (node.type === "identifier") {
+    return node.name;
+  }
+  const value = context.evaluate(node);
+  return value === null ? "" : String(value);
+}
+
+/**
+ * Filter comparison operators, checked longest first
+ */
+const FILTER_OPERATORS = [">=", "<=", "<>", "!=", "==", ">", "<", "="] as const;
+
+/**
+ * A parsed table filter: column, comparison operator and value
+ */
+interface TableFilter {
+  column: string;
+  operator: FormulaBinaryOperator;
+  value: FormulaValue;
+}
+
+/**
+ * Parse a filter criterion into an operator and value
+ * Criteria may start with a comparison operator (">=100", "<>expense", "!=");
+ * anything else is an equality test. Non-string criteria (e.g. 100) compare for equality.
+ */
+function parse_filter_criterion(criterion: FormulaValue): { operator: FormulaBinaryOperator; value: FormulaValue } {
+  if (typeof criterion !== "string") {
+    return { operator: "==", value: criterion };
+  }
+  const prefix = FILTER_OPERATORS.find((op) => criterion.startsWith(op));
+  if (!prefix) {
+    return { operator: "==", value: criterion };
+  }
+  const operator: FormulaBinaryOperator =
+    prefix === "<>" ? "!=" : prefix === "=" ? "==" : prefix;
+  return { operator, value: criterion.slice(prefix.length).trim() };
+}
+
+/**
+ * Resolve filter arguments given as (filter_column, criterion) pairs
+ * Returns null when the pairs are incomplete
+ */
+function resolve_table_filters(
+  args: FormulaNode[],
+  context: FormulaFunctionContext
+): TableFilter[] | null {
+  if (args.length % 2 !== 0) {
+    return null;
+  }
+  const filters: TableFilter[] = [];
+  for (let i = 0; i < args.length; i += 2) {
+    const column = resolve_name_argument(args[i], context);
+    const criterion_node = args[i + 1];
+    const criterion: FormulaValue =
+      criterion_node.type === "identifier" ? criterion_node.name : context.evaluate(criterion_node);
+    filters.push({ column, ...parse_filter_criterion(criterion) });
+  }
+  return filters;
+}
+
+/**
+ * Lowercase string values so filters ignore case ("Income" matches income)
+ */
+function to_filter_value(value: FormulaValue): FormulaValue {
+  return typeof value === "string" ? value.toLowerCase() : value;
+}
+
+/**
+ * Check if a table row passes every filter (numerically when both sides
+ * are numeric, otherwise case-insensitively)
+ */
+function row_matches_filters(row: Record<string, unknown>, filters: TableFilter[]): boolean {
+  return filters.every((filter) => {
+    const diff = compare_values(
+      to_filter_value(to_formula_value(row[filter.column])),
+      to_filter_value(filter.value)
+    );
+    switch (filter.operator) {
+      case "!=":
+        return diff !== 0;
+      case ">":
+        return diff > 0;
+      case ">=":
+        return diff >= 0;
+      case "<":
+        return diff < 0;
+      case "<=":
+        return diff <= 0;
+      default:
+        return diff === 0;
+    }
+  });
+}
+
+/**
+ * Get the rows of a table field that pass the filters
+ * Returns null when the value isn't an array of rows
+ */
+function get_filtered_rows(
+  table_id: string,
+  filters: TableFilter[],
+  context: FormulaFunctionContext
+): Record<string, unknown>[] | null {
+  const table_data = get_value_at_path(context.values, table_id);
+  if (!Array.isArray(table_data)) {
+    return null;
+  }
+  return table_data.filter(
+    (row): row is Record<string, unknown> =>
+      typeof row === "object" && row !== null && row_matches_filters(row as Record<string, unknown>, filters)
+  );
+}
+
+/**
+ * Build a table aggregate function over a value column:
+ * NAME(table_id, value_column [, filter_column, criterion]...)
+ * The aggregate receives the numeric, non-empty cell values of matching rows
+ */
+function create_table_aggregate(name: string, aggregate: (nums: number[]) => FormulaValue): FormulaFunction {
+  return (args, context) => {
+    const filters = args.length >= 2 ? resolve_table_filters(args.slice(2), context) : null;
+    if (!filters) {
+      console.warn(`${name} requires a table, a column and optional filter column / criterion pairs`);
+      return null;
+    }
+
+    const table_id = resolve_name_argument(args[0], context);
+    const value_column = resolve_name_argument(args[1], context);
+    const rows = get_filtered_rows(table_id, filters, context);
+    if (!rows) {
+      return null;
+    }
+
+    const nums: number[] = [];
+    rows.forEach((row) => {
+      const value = to_formula_value(row[value_column]);
+      if (value === null || value === "") return;
+      const num = formula_to_number(value);
+      if (!isNaN(num)) {
+        nums.push(num);
+      }
+    });
+    return aggregate(nums);
+  };
+}
+
+/**
+ * TABLE_COUNT(table_id [, filter_column, criterion]...)
+ * Counts the rows that pass the filters
+ */
+const table_count: FormulaFunction = (args, context) => {
+  const filters = args.length >= 1 ? resolve_table_filters(args.slice(1), context) : null;
+  if (!filters) {
+    console.warn("TABLE_COUNT requires a table and optional filter column / criterion pairs");
+    return null;
+  }
+  const rows = get_filtered_rows(resolve_name_argument(args[0], context), filters, context);
+  return rows ? rows.length : null;
+};
+
+/**
+ * Table-aware functions: the first argument names a table field, the remaining
+ * identifier arguments are column names / filter literals rather than field references
+ */
+const TABLE_FUNCTION_NAMES = new Set(["TABLE_SUM", "TABLE_COUNT", "TABLE_AVG", "TABLE_MIN", "TABLE_MAX"]);
+
+/**
+ * Built-in formula functions (names are case-insensitive)
+ */
+const formula_functions: Map<string, FormulaFunction> = new Map<string, FormulaFunction>([
+  [
+    "IF",
+    (args, context) => {
+      if (args.length < 2 || args.length > 3) {
+        console.warn("IF requires 2 or 3 arguments: condition, value_if_true, value_if_false");
+        return null;
+      }
+      return formula_to_boolean(context.evaluate(args[0]))
+        ? context.evaluate(args[1])
+        : args[2] ? context.evaluate(args[2]) : null;
+    },
+  ],
+  ["SUM", (args, context) => decimal_sum(evaluate_numeric_args(args, context))],
+  [
+    "MIN",
+    (args, context) => (args.length === 0 ? null : Math.min(...evaluate_numeric_args(args, context))),
+  ],
+  [
+    "MAX",
+    (args, context) => (args.length === 0 ? null : Math.max(...evaluate_numeric_args(args, context))),
+  ],
+  [
+    "ROUND",
+    (args, context) => {
+      const [value, digits = 0] = evaluate_numeric_args(args, context);
+      if (value === undefined) return null;
+      // Round half away from zero
+      return round_decimal(value, digits, "half_up");
+    },
+  ],
+  ["ABS", (args, context) => (args.length === 0 ? null : Math.abs(evaluate_numeric_args(args, context)[0]))],
+  ["FLOOR", (args, context) => (args.length === 0 ? null : Math.floor(evaluate_numeric_args(args, context)[0]))],
+  ["CEIL", (args, context) => (args.length === 0 ? null : Math.ceil(evaluate_numeric_args(args, context)[0]))],
+  ["TABLE_SUM", create_table_aggregate("TABLE_SUM", decimal_sum)],
+  ["TABLE_COUNT", table_count],
+  [
+    "TABLE_AVG",
+    create_table_aggregate("TABLE_AVG", (nums) =>
+      nums.length === 0 ? null : decimal_divide(decimal_sum(nums), nums.length)
+    ),
+  ],
+  ["TABLE_MIN", create_table_aggregate("TABLE_MIN", (nums) => (nums.length === 0 ? null : Math.min(...nums)))],
+  ["TABLE_MAX", create_table_aggregate("TABLE_MAX", (nums) => (nums.length === 0 ? null : Math.max(...nums)))],
+]);
+
+// =============================================================================
+// EVALUATOR
+// =============================================================================
+
+/**
+ * Evaluate a parsed formula AST against form values
+ * Arithmetic on non-numeric values yields NaN rather than throwing
+ */
+export function evaluate_formula_ast(
+  node: FormulaNode,
+  values: Record<string, unknown>
+): FormulaValue {
+  const evaluate = (current: FormulaNode): FormulaValue => {
+    switch (current.type) {
+      case "number":
+      case "string":
+      case "boolean":
+        return current.value;
+      case "null":
+        return null;
+      case "identifier":
+        return to_formula_value(get_value_at_path(values, current.name));
+      case "unary": {
+        const operand = evaluate(current.operand);
+        if (current.operator === "!") return !formula_to_boolean(operand);
+        const num = formula_to_number(operand);
+        return current.operator === "-" ? -num : num;
+      }
+      case "binary":
+        return evaluate_binary(current.operator, current.left, current.right);
+      case "conditional":
+        return formula_to_boolean(evaluate(current.test))
+          ? evaluate(current.consequent)
+          : evaluate(current.alternate);
+      case "call": {
+        const fn = formula_functions.get(current.name);
+        if (!fn) {
+          console.warn(`Unknown formula function "${current.name}" at position ${current.position}`);
+          return null;
+        }
+        return fn(current.args, { values, evaluate });
+      }
+    }
+  };
+
+  const evaluate_binary = (
+    operator: FormulaBinaryOperator,
+    left_node: FormulaNode,
+    right_node: FormulaNode
+  ): FormulaValue => {
+    // Logical operators short-circuit
+    if (operator === "&&") {
+      return formula_to_boolean(evaluate(left_node)) && formula_to_boolean(evaluate(right_node));
+    }
+    if (operator === "||") {
+      return formula_to_boolean(evaluate(left_node)) || formula_to_boolean(evaluate(right_node));
+    }
+
+    const left = evaluate(left_node);
+    const right = evaluate(right_node);
+
+    switch (operator) {
+      case "==":
+        return compare_values(left, right) === 0;
+      case "!=":
+        return compare_values(left, right) !== 0;
+      case "<":
+        return compare_values(left, right) < 0;
+      case "<=":
+        return compare_values(left, right) <= 0;
+      case ">":
+        return compare_values(left, right) > 0;
+      case ">=":
+        return compare_values(left, right) >= 0;
+      case "+":
+        return decimal_add(formula_to_number(left), formula_to_number(right));
+      case "-":
+        return decimal_subtract(formula_to_number(left), formula_to_number(right));
+      case "*":
+        return decimal_multiply(formula_to_number(left), formula_to_number(right));
+      case "/":
+        return decimal_divide(formula_to_number(left), formula_to_number(right));
+      case "%":
+        return decimal_modulo(formula_to_number(left), formula_to_number(right));
+    }
+  };
+
+  return evaluate(node);
+}
+
+/**
+ * Collect the field IDs a formula reads
+ * For table functions only the table argument counts as a reference
+ * Returns an empty list when the formula can't be parsed
+ */
+export function get_formula_references(formula: string): string[] {
+  const { ast } = parse_formula(formula);
+  if (!ast) {
+    return [];
+  }
+
+  const refs = new Set<string>();
+  const visit = (node: FormulaNode) => {
+    switch (node.type) {
+      case "identifier":
+        refs.add(node.name);
+        break;
+      case "unary":
+        visit(node.operand);
+        break;
+      case "binary":
+        visit(node.left);
+        visit(node.right);
+        break;
+      case "conditional":
+        visit(node.test);
+        visit(node.consequent);
+        visit(node.alternate);
+        break;
+      case "call":
+        if (TABLE_FUNCTION_NAMES.has(node.name)) {
+          const [table_arg, ...rest] = node.args;
+          if (table_arg) visit(table_arg);
+          // Non-identifier arguments (e.g. IF(...) filter values) can still read fields
+          rest.filter((arg) => arg.type !== "identifier").forEach(visit);
+        } else {
+          node.args.forEach(visit);
+        }
+        break;
+      default:
+        break;
+    }
+  };
+
+  visit(ast);
+  return Array.from(refs);
+}
+
+/**
+ * Parse and evaluate a formula, returning the raw value
+ * Returns null (and logs the position) when the formula can't be parsed
+ */
+export function evaluate_expression(
+  formula: string,
+  values: Record<string, unknown>
+): FormulaValue {
+  const { ast, error } = parse_formula(formula);
+  if (!ast) {
+    console.warn(`Invalid formula "${formula}": ${error?.message}`);
+    return null;
+  }
+  return evaluate_formula_ast(ast, values);
+}
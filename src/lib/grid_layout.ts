@@ -0,0 +1,50 @@
+import type { FieldGroup, FormField } from "./types";
+
+/**
+ * Grid field groups (orientation "grid")
+ * Column counts follow the group's measured width so the same schema collapses
+ * to a single column on narrow screens.
+ */
+
+/** Default grid column count */
+export const DEFAULT_GRID_COLUMNS = 2;
+
+/** Width (px) below which a grid collapses to one column when responsive_columns isn't set */
+export const GRID_COLLAPSE_WIDTH = 480;
+
+/**
+ * Get the column count of a grid group at a width
+ * Without a width (not measured yet, e.g. server rendering) the full column count is used
+ */
+export function get_grid_column_count(field_group: Pick<FieldGroup, "columns" | "responsive_columns">, width?: number): number {
+  const columns = Math.max(1, Math.floor(field_group.columns ?? DEFAULT_GRID_COLUMNS));
+  if (width === undefined) return columns;
+
+  const breakpoints = field_group.responsive_columns ?? { 0: 1, [GRID_COLLAPSE_WIDTH]: columns };
+  let column_count = 1;
+  let matched_width = -1;
+  Object.entries(breakpoints).forEach(([min_width, count]) => {
+    const min = Number(min_width);
+    if (Number.isFinite(min) && width >= min && min > matched_width) {
+      matched_width = min;
+      column_count = count;
+    }
+  });
+  return Math.max(1, Math.floor(column_count));
+}
+
+/**
+ * Get a field's grid placement: col_span is capped at the column count, and
+ * row_span only applies when there's more than one column
+ */
+export function get_grid_item_style(
+  field: Pick<FormField, "col_span" | "row_span">,
+  column_count: number
+): { gridColumn?: string; gridRow?: string } {
+  const col_span = Math.min(Math.max(1, Math.floor(field.col_span ?? 1)), column_count);
+  const row_span = column_count > 1 ? Math.max(1, Math.floor(field.row_span ?? 1)) : 1;
+  return {
+    gridColumn: col_span > 1 ? `span ${col_span} / span ${col_span}` : undefined,
+    gridRow: row_span > 1 ? `span ${row_span} / span ${row_span}` : undefined,
+  };
+}
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { get_cached, set_cached } from "./lru_cache";
+
+describe("lru_cache", () => {
+  it("evicts the oldest entries beyond the size cap", () => {
+    const cache = new Map<string, number>();
+    set_cached(cache, "a", 1, 2);
+    set_cached(cache, "b", 2, 2);
+    set_cached(cache, "c", 3, 2);
+    expect(Array.from(cache.keys())).toEqual(["b", "c"]);
+  });
+
+  it("keeps recently read entries", () => {
+    const cache = new Map<string, number>();
+    set_cached(cache, "a", 1, 2);
+    set_cached(cache, "b", 2, 2);
+    expect(get_cached(cache, "a")).toBe(1);
+    set_cached(cache, "c", 3, 2);
+    expect(Array.from(cache.keys())).toEqual(["a", "c"]);
+    expect(get_cached(cache, "b")).toBeUndefined();
+  });
+
+  it("replaces an existing key without evicting others", () => {
+    const cache = new Map<string, number>();
+    set_cached(cache, "a", 1, 2);
+    set_cached(cache, "b", 2, 2);
+    set_cached(cache, "a", 10, 2);
+    expect(Array.from(cache.entries())).toEqual([["b", 2], ["a", 10]]);
+  });
+});
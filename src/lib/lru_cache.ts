@@ -0,0 +1,29 @@
+/**
+ * Size-capped caches over a Map
+ * A Map iterates in insertion order, so re-inserting an entry when it's read
+ * keeps the least recently used entry first, and that's the one evicted.
+ */
+
+/**
+ * Read a cached value, marking it as the most recently used
+ */
+export function get_cached<V>(cache: Map<string, V>, key: string): V | undefined {
+  if (!cache.has(key)) return undefined;
+  const value = cache.get(key) as V;
+  cache.delete(key);
+  cache.set(key, value);
+  return value;
+}
+
+/**
+ * Cache a value, evicting the least recently used entries beyond max_size
+ */
+export function set_cached<V>(cache: Map<string, V>, key: string, value: V, max_size: number): void {
+  cache.delete(key);
+  cache.set(key, value);
+  while (cache.size > max_size) {
+    const oldest = cache.keys().next();
+    if (oldest.done) break;
+    cache.delete(oldest.value);
+  }
+}
@@ -0,0 +1,288 @@
+import type { HazoServices } from "../context/services_context";
+import type { FieldInfo, FormValues, OptionItem, OptionSource } from "./types";
+import { filter_options_by_parent, get_field_options } from "./options";
+
+/**
+ * Option sources
+ * Long option lists (occupation codes, client lists) are searched and loaded a
+ * page at a time from a static list, a registered loader or a services.db query.
+ * Stored values are turned back into labels with resolve_option_labels().
+ */
+
+/** Options per page when the source doesn't set page_size */
+export const DEFAULT_OPTION_PAGE_SIZE = 50;
+
+/**
+ * Request passed to option loaders
+ * With `values`, return the options for those stored values (label resolution);
+ * otherwise return the page of options matching `search`
+ */
+export interface OptionLoaderRequest {
+  search: string;
+  offset: number;
+  limit: number;
+  /** Stored values to resolve labels for */
+  values?: string[];
+  /** The source's params */
+  params?: Record<string, unknown>;
+  /** ID of the field loading options */
+  field_id: string;
+  /** Current form values */
+  form_values: FormValues;
+  /** Value of the field's depends_on parent (undefined when it has none) */
+  parent_value?: unknown;
+  services?: Partial<HazoServices>;
+  /** Aborted when a newer search supersedes this one */
+  signal: AbortSignal;
+}
+
+/**
+ * One page of options
+ */
+export interface OptionPage {
+  options: OptionItem[];
+  /** More options match the search */
+  has_more: boolean;
+}
+
+/**
+ * Named option loader
+ * Return a page, or a plain array (has_more when it fills the page)
+ */
+export type OptionLoader = (request: OptionLoaderRequest) => Promise<OptionPage | OptionItem[]>;
+
+/**
+ * Context for loading a source's options
+ */
+export interface OptionSourceContext {
+  field_id: string;
+  form_values: FormValues;
+  /** Value of the field's depends_on parent (undefined when it has none) */
+  parent_value?: unknown;
+  services?: Partial<HazoServices>;
+  signal: AbortSignal;
+}
+
+/**
+ * Registry for named option loaders
+ */
+const option_loaders: Map<string, OptionLoader> = new Map();
+
+/**
+ * Register an option loader
+ */
+export function register_option_loader(name: string, loader: OptionLoader): void {
+  option_loaders.set(name, loader);
+}
+
+/**
+ * Get option loader by name
+ */
+export function get_option_loader(name: string): OptionLoader | undefined {
+  return option_loaders.get(name);
+}
+
+/**
+ * Check if an option loader is registered
+ */
+export function has_option_loader(name: string): boolean {
+  return option_loaders.has(name);
+}
+
+/**
+ * Unregister an option loader
+ */
+export function unregister_option_loader(name: string): boolean {
+  return option_loaders.delete(name);
+}
+
+/**
+ * Get the option source of a field: option_source, or the inline options for the "combobox" display
+ */
+export function get_option_source(
+  field_info: Pick<FieldInfo, "option_source" | "option_display" | "options" | "allow_other">
+): OptionSource | undefined {
+  if (field_info.option_source) return field_info.option_source;
+  if (field_info.option_display === "combobox") {
+    return { type: "static", options: get_field_options(field_info) };
+  }
+  return undefined;
+}
+
+/**
+ * Get a stable key for a source (for caches and effect dependencies)
+ */
+export function get_option_source_key(source: OptionSource): string {
+  return JSON.stringify(source);
+}
+
+/**
+ * Check an option against a search (case-insensitive, on label or value)
+ */
+function matches_search(option: OptionItem, search: string): boolean {
+  const needle = search.trim().toLowerCase();
+  if (!needle) return true;
+  return option.label.toLowerCase().includes(needle) || option.value.toLowerCase().includes(needle);
+}
+
+/**
+ * Map a database row to an option
+ */
+function row_to_option(row: unknown, value_column: string, label_column: string): OptionItem {
+  const record = (row ?? {}) as Record<string, unknown>;
+  const value = String(record[value_column] ?? "");
+  return { value, label: String(record[label_column] ?? value) };
+}
+
+/**
+ * Get the query params for a db source, led by the parent value on dependent fields
+ */
+function get_db_params(context: OptionSourceContext, params: unknown[]): unknown[] {
+  return context.parent_value === undefined ? params : [context.parent_value, ...params];
+}
+
+/**
+ * Load one page of options matching a search
+ * Missing loaders, a missing services.db and failed loads are logged and give an empty page
+ */
+export async function load_option_page(
+  source: OptionSource,
+  request: { search: string; offset: number; limit?: number },
+  context: OptionSourceContext
+): Promise<OptionPage> {
+  const limit = request.limit ?? source.page_size ?? DEFAULT_OPTION_PAGE_SIZE;
+
+  try {
+    if (source.type === "static") {
+      const matches = filter_options_by_parent(source.options, context.parent_value).filter((option) =>
+        matches_search(option, request.search)
+      );
+      return {
+        options: matches.slice(request.offset, request.offset + limit),
+        has_more: request.offset + limit < matches.length,
+      };
+    }
+
+    if (source.type === "loader") {
+      const loader = option_loaders.get(source.name);
+      if (!loader) {
+        console.warn(`Unknown option loader "${source.name}"`);
+        return { options: [], has_more: false };
+      }
+      const result = await loader({
+        search: request.search,
+        offset: request.offset,
+        limit,
+        params: source.params,
+        ...context,
+      });
+      return Array.isArray(result) ? { options: result, has_more: result.length >= limit } : result;
+    }
+
+    const db = context.services?.db;
+    if (!db) {
+      console.warn(`Option source for "${context.field_id}" needs services.db`);
+      return { options: [], has_more: false };
+    }
+    const rows = await db.query(
+      source.query,
+      get_db_params(context, [`%${request.search.trim()}%`, limit, request.offset])
+    );
+    return {
+      options: rows.map((row) => row_to_option(row, source.value_column ?? "value", source.label_column ?? "label")),
+      has_more: rows.length >= limit,
+    };
+  } catch (error) {
+    if (!context.signal.aborted) {
+      console.warn(`Loading options for "${context.field_id}" failed:`, error);
+    }
+    return { options: [], has_more: false };
+  }
+}
+
+/**
+ * Look up the options for stored values
+ * Returns undefined when the source can't answer (unknown loader, no services.db
+ * or label_query); load failures are thrown
+ */
+async function fetch_value_options(
+  source: OptionSource,
+  values: string[],
+  context: OptionSourceContext
+): Promise<OptionItem[] | undefined> {
+  if (source.type === "static") {
+    return filter_options_by_parent(source.options, context.parent_value).filter((option) =>
+      values.includes(option.value)
+    );
+  }
+
+  if (source.type === "loader") {
+    const loader = option_loaders.get(source.name);
+    if (!loader) {
+      console.warn(`Unknown option loader "${source.name}"`);
+      return undefined;
+    }
+    const result = await loader({
+      search: "",
+      offset: 0,
+      limit: values.length,
+      values,
+      params: source.params,
+      ...context,
+    });
+    const options = Array.isArray(result) ? result : result.options;
+    return options.filter((option) => values.includes(option.value));
+  }
+
+  const db = context.services?.db;
+  if (!db || !source.label_query) return undefined;
+  const label_query = source.label_query;
+  const value_column = source.value_column ?? "value";
+  const label_column = source.label_column ?? "label";
+  const results = await Promise.all(values.map((value) => db.query(label_query, get_db_params(context, [value]))));
+  return results.flatMap((rows) => rows.slice(0, 1).map((row) => row_to_option(row, value_column, label_column)));
+}
+
+/**
+ * Find the options for stored values (e.g. to show labels in view mode)
+ * Values that can't be resolved are left out; failures are logged
+ */
+export async function resolve_option_labels(
+  source: OptionSource,
+  values: string[],
+  context: OptionSourceContext
+): Promise<OptionItem[]> {
+  if (values.length === 0) return [];
+
+  try {
+    return (await fetch_value_options(source, values, context)) ?? [];
+  } catch (error) {
+    if (!context.signal.aborted) {
+      console.warn(`Resolving option labels for "${context.field_id}" failed:`, error);
+    }
+    return [];
+  }
+}
+
+/**
+ * Find which stored values the source still offers (e.g. after a parent field changed)
+ * Returns undefined when that can't be checked (a missing loader or services.db, a
+ * db source without label_query, or a failed load), so values aren't dropped on errors
+ */
+export async function find_valid_option_values(
+  source: OptionSource,
+  values: string[],
+  context: OptionSourceContext
+): Promise<string[] | undefined> {
+  if (values.length === 0) return [];
+
+  try {
+    const options = await fetch_value_options(source, values, context);
+    return options?.map((option) => option.value);
+  } catch (error) {
+    if (!context.signal.aborted) {
+      console.warn(`Checking option values for "${context.field_id}" failed:`, error);
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,167 @@
+import type { FieldInfo, OptionItem, OtherOptionValue } from "./types";
+
+/**
+ * Option field values
+ * Single-value option fields store the option's value string; checkbox displays
+ * and multiple selects store a string array. With allow_other, the "Other"
+ * choice is stored as { value: "other", other_text } in place of its string.
+ */
+
+/** Value of the "Other" choice added by allow_other */
+export const OTHER_OPTION_VALUE = "other";
+
+/**
+ * Check whether a stored value (or array entry) is an "Other" choice with its text
+ */
+export function is_other_option_value(value: unknown): value is OtherOptionValue {
+  return typeof value === "object" && value !== null && !Array.isArray(value) && "other_text" in value;
+}
+
+/**
+ * Get a stored entry's option value ("Other" choices give their value)
+ */
+function to_option_value(item: unknown): string {
+  return is_other_option_value(item) ? String(item.value) : String(item);
+}
+
+/**
+ * Get the non-empty entries of an option value (a single value becomes a one-item array)
+ */
+function to_option_entries(value: unknown): unknown[] {
+  const entries = Array.isArray(value) ? value : [value];
+  return entries.filter((item) => item !== undefined && item !== null && item !== "");
+}
+
+/**
+ * Check whether an option field stores several values (string array)
+ */
+export function is_multi_option(field_info: Pick<FieldInfo, "option_display" | "multiple">): boolean {
+  return field_info.option_display === "checkbox" || !!field_info.multiple;
+}
+
+/**
+ * Get the selected option values as strings (a single value becomes a one-item array)
+ */
+export function to_option_values(value: unknown): string[] {
+  return to_option_entries(value).map(to_option_value);
+}
+
+/**
+ * Add or remove a value from a multi-value selection, keeping the options' order
+ */
+export function toggle_option_value(
+  options: OptionItem[],
+  selected: string[],
+  option_value: string,
+  checked: boolean
+): string[] {
+  const next = new Set(selected);
+  if (checked) {
+    next.add(option_value);
+  } else {
+    next.delete(option_value);
+  }
+  const ordered = options.map((option) => option.value).filter((item) => next.has(item));
+  // Values not in the options (e.g. from older data) are kept after the known ones
+  const unknown = selected.filter((item) => next.has(item) && !options.some((option) => option.value === item));
+  return [...ordered, ...unknown];
+}
+
+/**
+ * Format option value(s) for display: labels joined with ", " ("-" when empty)
+ * Values not in the options are shown as-is
+ */
+export function format_option_value(options: OptionItem[], value: unknown): string {
+  return format_option_labels(
+    value,
+    (option_value) => options.find((option) => option.value === option_value)?.label || option_value
+  );
+}
+
+/**
+ * Format a stored option value with a label lookup (e.g. labels resolved from an option source)
+ */
+export function format_option_labels(value: unknown, get_label: (option_value: string) => string): string {
+  const labels = to_option_entries(value).map((item) => {
+    const label = get_label(to_option_value(item));
+    const other_text = is_other_option_value(item) ? item.other_text.trim() : "";
+    return other_text ? `${label}: ${other_text}` : label;
+  });
+  return labels.length > 0 ? labels.join(", ") : "-";
+}
+
+/**
+ * Get the options offered for a parent value (fields with depends_on)
+ * Options without a parent are always offered; an undefined parent value
+ * (the field has no depends_on) leaves the options unfiltered
+ */
+export function filter_options_by_parent(options: OptionItem[], parent_value: unknown): OptionItem[] {
+  if (parent_value === undefined) return options;
+  const parent_values = to_option_values(parent_value);
+  return options.filter(
+    (option) =>
+      option.parent === undefined || to_option_values(option.parent).some((item) => parent_values.includes(item))
+  );
+}
+
+/**
+ * Drop selected values that aren't among the valid ones
+ * Returns the value unchanged when every selection is still valid; otherwise
+ * the remaining values (multi-value fields) or "" (single-value fields)
+ */
+export function prune_option_value(
+  field_info: Pick<FieldInfo, "option_display" | "multiple">,
+  value: unknown,
+  valid_values: string[]
+): unknown {
+  const selected = to_option_entries(value);
+  const kept = selected.filter((item) => valid_values.includes(to_option_value(item)));
+  if (kept.length === selected.length) return value;
+  return is_multi_option(field_info) ? kept : "";
+}
+
+/**
+ * Get the label of a field's "Other" choice, or undefined without allow_other
+ */
+export function get_other_option_label(field_info: Pick<FieldInfo, "allow_other">): string | undefined {
+  if (!field_info.allow_other) return undefined;
+  return field_info.allow_other === true ? "Other" : field_info.allow_other;
+}
+
+/**
+ * Get a field's inline options, with the "Other" choice last when allow_other is set
+ */
+export function get_field_options(field_info: Pick<FieldInfo, "options" | "allow_other">): OptionItem[] {
+  const options = field_info.options || [];
+  const other_label = get_other_option_label(field_info);
+  if (!other_label || options.some((option) => option.value === OTHER_OPTION_VALUE)) return options;
+  return [...options, { label: other_label, value: OTHER_OPTION_VALUE }];
+}
+
+/**
+ * Get the text entered for the "Other" choice, or undefined when it isn't selected
+ */
+export function get_other_text(value: unknown): string | undefined {
+  const selected = to_option_entries(value);
+  const other = selected.find(is_other_option_value);
+  if (other) return other.other_text;
+  return selected.includes(OTHER_OPTION_VALUE) ? "" : undefined;
+}
+
+/**
+ * Turn a selection from an option input into the stored value: a selected
+ * "Other" becomes { value: "other", other_text } (keeping text entered before)
+ */
+export function with_other_text(selection: string | string[], other_text = ""): unknown {
+  const to_entry = (item: string) =>
+    item === OTHER_OPTION_VALUE ? { value: OTHER_OPTION_VALUE, other_text } : item;
+  return Array.isArray(selection) ? selection.map(to_entry) : to_entry(selection);
+}
+
+/**
+ * Check for a selected "Other" choice whose text hasn't been filled in
+ */
+export function has_blank_other_text(value: unknown): boolean {
+  const other_text = get_other_text(value);
+  return other_text !== undefined && other_text.trim() === "";
+}
@@ -0,0 +1,127 @@
+import type { FormField, FormSchema, FormValues, SubSection } from "./types";
+import { get_value_at_path, set_value_at_path } from "./value_paths";
+
+/**
+ * Repeatable sub-sections
+ * Each instance renders the sub-section's field group. Values are stored as an
+ * array of objects under sub_section_id, and instance fields are addressed by
+ * "<sub_section_id>.<index>.<field_id>" (react-hook-form's array path).
+ */
+
+/**
+ * Location of an instance field
+ */
+export interface InstanceFieldLocation {
+  sub_section: SubSection;
+  index: number;
+  field_id: string;
+}
+
+/**
+ * Get the form path of a field in a sub-section instance
+ */
+export function get_instance_field_id(sub_section_id: string, index: number, field_id: string): string {
+  return `${sub_section_id}.${index}.${field_id}`;
+}
+
+/**
+ * Get the fields of one instance, with IDs (and paired field IDs) scoped to the instance
+ * Pass the instance's values to carry them as field values (e.g. for view-only rendering)
+ */
+export function get_instance_fields(
+  sub_section: SubSection,
+  index: number,
+  instance_values?: FormValues
+): FormField[] {
+  const scope = (field_id: string) => get_instance_field_id(sub_section.sub_section_id, index, field_id);
+  return sub_section.field_group.fields.map((field) => ({
+    ...field,
+    id: scope(field.id),
+    value: instance_values ? get_value_at_path(instance_values, field.id) : field.value,
+    paired_field: field.paired_field && {
+      ...field.paired_field,
+      id: scope(field.paired_field.id),
+      value: instance_values ? get_value_at_path(instance_values, field.paired_field.id) : field.paired_field.value,
+    },
+  }));
+}
+
+/**
+ * Get the values of a new instance from its fields' defaults
+ * Priority: value > default_value > field_info.default_value (as for top-level fields)
+ */
+export function get_instance_defaults(sub_section: SubSection): FormValues {
+  const defaults: FormValues = {};
+  const add_default = (field: Pick<FormField, "id" | "value" | "default_value" | "field_info">) => {
+    const value =
+      field.value !== undefined ? field.value :
+      field.default_value !== undefined ? field.default_value :
+      field.field_info?.default_value;
+    set_value_at_path(defaults, field.id, value ?? "");
+  };
+  sub_section.field_group.fields.forEach((field) => {
+    add_default(field);
+    if (field.paired_field) {
+      add_default(field.paired_field);
+    }
+  });
+  return defaults;
+}
+
+/**
+ * Get the starting instances of a repeatable sub-section (min_instances, default 0)
+ */
+export function get_default_instances(sub_section: SubSection): FormValues[] {
+  return Array.from({ length: sub_section.min_instances ?? 0 }, () => get_instance_defaults(sub_section));
+}
+
+/**
+ * Get the instances of a repeatable sub-section from form values
+ */
+export function get_instances(values: FormValues, sub_section: SubSection): FormValues[] {
+  const instances = get_value_at_path(values, sub_section.sub_section_id);
+  return Array.isArray(instances)
+    ? instances.map((instance) => (instance && typeof instance === "object" ? instance : {}) as FormValues)
+    : [];
+}
+
+/**
+ * Get an instance's heading, e.g. "Dependant 2"
+ */
+export function get_instance_label(sub_section: SubSection, index: number): string {
+  const template = sub_section.instance_label ?? `${sub_section.sub_section_label || "Item"} {n}`;
+  return template.replace(/\{n\}/g, String(index + 1));
+}
+
+/**
+ * Find the repeatable sub-section, instance and field for an instance field path
+ */
+export function parse_instance_field_id(schema: FormSchema, path: string): InstanceFieldLocation | undefined {
+  for (const section of schema) {
+    for (const sub_section of section.sub_sections) {
+      if (!sub_section.repeatable) continue;
+      const prefix = `${sub_section.sub_section_id}.`;
+      if (!path.startsWith(prefix)) continue;
+      const match = /^(\d+)\.(.+)$/.exec(path.slice(prefix.length));
+      if (match) {
+        return { sub_section, index: Number(match[1]), field_id: match[2] };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the repeatable sub-section ID a form path belongs to (the array itself or a field in an instance)
+ */
+export function get_repeatable_sub_section_id(schema: FormSchema, path: string): string | undefined {
+  for (const section of schema) {
+    for (const sub_section of section.sub_sections) {
+      const sub_section_id = sub_section.sub_section_id;
+      if (sub_section.repeatable && (path === sub_section_id || path.startsWith(`${sub_section_id}.`))) {
+        return sub_section_id;
+      }
+    }
+  }
+  return undefined;
+}
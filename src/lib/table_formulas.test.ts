@@ -0,0 +1,76 @@
+import { describe, expect, it, vi } from "vitest";
+import { apply_row_formulas, apply_table_formulas, is_computed_column } from "./table_formulas";
+import type { TableColumn } from "./types";
+
+const columns: TableColumn[] = [
+  { id: "quantity", label: "Quantity", field_info: { field_type: "number" } },
+  { id: "unit_price", label: "Unit price", field_info: { field_type: "currency" } },
+  // Declared before the column it reads, so evaluation order must come from the formulas
+  {
+    id: "total",
+    label: "Total",
+    field_info: { field_type: "currency", decimal_places: 2 },
+    computed_formula: "subtotal * 1.1",
+  },
+  {
+    id: "subtotal",
+    label: "Subtotal",
+    field_info: { field_type: "currency", computed_formula: "quantity * unit_price" },
+  },
+];
+
+describe("is_computed_column", () => {
+  it("accepts the formula on the column or its field_info", () => {
+    expect(is_computed_column(columns[0])).toBe(false);
+    expect(is_computed_column(columns[2])).toBe(true);
+    expect(is_computed_column(columns[3])).toBe(true);
+  });
+});
+
+describe("apply_row_formulas", () => {
+  it("evaluates computed columns in dependency order and rounds them", () => {
+    expect(apply_row_formulas({ quantity: 3, unit_price: "10.15" }, columns)).toEqual({
+      quantity: 3,
+      unit_price: "10.15",
+      subtotal: 30.45,
+      total: 33.5,
+    });
+  });
+
+  it("uses the given rounding mode unless the column sets its own", () => {
+    const row: Record<string, unknown> = { quantity: 1, unit_price: 0.15 };
+    expect(apply_row_formulas(row, columns, "truncate").total).toBe(0.16);
+    expect(apply_row_formulas(row, columns).total).toBe(0.17);
+  });
+
+  it("leaves cells empty when a formula can't be evaluated", () => {
+    const broken: TableColumn[] = [
+      { id: "a", label: "A", field_info: { field_type: "number" } },
+      { id: "b", label: "B", field_info: { field_type: "number" }, computed_formula: "a +" },
+    ];
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(apply_row_formulas({ a: 1, b: 5 }, broken).b).toBe("");
+    warn.mockRestore();
+  });
+
+  it("returns the row unchanged when no column is computed", () => {
+    const row = { quantity: 1 };
+    expect(apply_row_formulas(row, columns.slice(0, 2))).toBe(row);
+  });
+});
+
+describe("apply_table_formulas", () => {
+  it("recalculates every row", () => {
+    const rows = apply_table_formulas<Record<string, unknown>>(
+      [
+        { quantity: 2, unit_price: 5 },
+        { quantity: "", unit_price: 5 },
+      ],
+      columns
+    );
+    expect(rows.map((row) => [row.subtotal, row.total])).toEqual([
+      [10, 11],
+      [0, 0],
+    ]);
+  });
+});
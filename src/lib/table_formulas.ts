@@ -0,0 +1,95 @@
+import type { FormField, RoundingMode, TableColumn } from "./types";
+import { build_computed_graph } from "./computed_graph";
+import { get_rounding_mode, round_decimal } from "./decimal";
+import { evaluate_formula } from "./utils";
+
+/**
+ * Get the per-row formula for a table column, if it has one
+ * column.computed_formula takes precedence over column.field_info.computed_formula
+ */
+export function get_column_formula(column: TableColumn): string | undefined {
+  return column.computed_formula || column.field_info.computed_formula || undefined;
+}
+
+/**
+ * Check if a table column is calculated from sibling columns (read-only)
+ */
+export function is_computed_column(column: TableColumn): boolean {
+  return !!get_column_formula(column);
+}
+
+/**
+ * Get computed column IDs in evaluation order, so a computed column can use
+ * another computed column in the same row. Columns on a circular reference are left out.
+ */
+function get_computed_column_order(columns: TableColumn[]): string[] {
+  const computed_columns: FormField[] = columns
+    .filter(is_computed_column)
+    .map((column) => ({
+      id: column.id,
+      label: column.label,
+      field_info: { ...column.field_info, computed_formula: get_column_formula(column) },
+    }));
+  return build_computed_graph(computed_columns).order;
+}
+
+/**
+ * Recalculate the computed columns of a single row
+ * Formulas reference sibling column IDs in the same row. Results are rounded
+ * to the column's decimal_places when set, using the column's rounding_mode
+ * (or the given default). Invalid results leave the cell empty.
+ */
+export function apply_row_formulas<T extends Record<string, unknown>>(
+  row: T,
+  columns: TableColumn[],
+  rounding_mode: RoundingMode = "half_up"
+): T {
+  return apply_formulas_in_order(row, columns, rounding_mode, get_computed_column_order(columns));
+}
+
+/**
+ * Evaluate a row's computed columns in a precomputed order
+ */
+function apply_formulas_in_order<T extends Record<string, unknown>>(
+  row: T,
+  columns: TableColumn[],
+  rounding_mode: RoundingMode,
+  order: string[]
+): T {
+  if (order.length === 0) {
+    return row;
+  }
+
+  const columns_by_id = new Map(columns.map((column) => [column.id, column]));
+  const result: Record<string, unknown> = { ...row };
+
+  order.forEach((column_id) => {
+    const column = columns_by_id.get(column_id)!;
+    let value = evaluate_formula(get_column_formula(column)!, result);
+    if (value !== null && column.field_info.decimal_places !== undefined) {
+      value = round_decimal(
+        value,
+        column.field_info.decimal_places,
+        get_rounding_mode(column.field_info, { rounding_mode })
+      );
+    }
+    result[column_id] = value ?? "";
+  });
+
+  return result as T;
+}
+
+/**
+ * Recalculate the computed columns of every row in a table
+ */
+export function apply_table_formulas<T extends Record<string, unknown>>(
+  rows: T[],
+  columns: TableColumn[],
+  rounding_mode: RoundingMode = "half_up"
+): T[] {
+  const order = get_computed_column_order(columns);
+  if (order.length === 0) {
+    return rows;
+  }
+  return rows.map((row) => apply_formulas_in_order(row, columns, rounding_mode, order));
+}
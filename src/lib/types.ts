@@ -303,7 +303,8 @@ export type BaseFieldType =
   | "table"
   | "computed"
   | "static_text"
-  | "summary_row";
+  | "summary_row"
+  | "address";
 
 /**
  * Field type - includes base types and any custom types defined in config
@@ -330,6 +331,20 @@ export interface FieldTypeDefinition {
   pattern?: string;
   /** Error message when validation fails */
   validation_message?: string;
+  /**
+   * Named validator run after the pattern check (see register_validator)
+   * Built-in: tfn_checksum, abn_checksum, acn_checksum, medicare_checksum, bsb_format
+   */
+  validator?: string;
+  /** Named async validator (see register_async_validator), run after the sync checks pass */
+  async_validator?: string;
+  /** Milliseconds to wait after the last change before running async_validator */
+  async_debounce_ms?: number;
+  /**
+   * Severity of pattern, length, min/max and validator failures (required is always an error)
+   * "warning" / "info" report them without blocking submit. Default: "error"
+   */
+  validation_severity?: ValidationSeverity;
 
   // Masking/formatting
   /** Display format with X placeholders for digits */
@@ -338,6 +353,8 @@ export interface FieldTypeDefinition {
   input_mask?: string;
   /** Default placeholder text */
   placeholder?: string;
+  /** Minimum input length (validated against the raw value) */
+  min_length?: number;
   /** Maximum input length (including formatting chars) */
   max_length?: number;
   /** Number of digits (without formatting) */
@@ -385,15 +402,74 @@ export interface FieldTypesConfig {
 export interface OptionItem {
   label: string;
   value: string;
+  /** Help text shown under the option (radio / checkbox displays and the multi-select list) */
+  help?: string;
+  /** Shown but can't be selected */
+  disabled?: boolean;
+  /**
+   * Parent value(s) this option belongs to, for fields with depends_on
+   * e.g. { label: "Parramatta", value: "parramatta", parent: "NSW" }
+   * Options without a parent are offered whatever the parent's value
+   */
+  parent?: string | string[];
+}
+
+/**
+ * Stored value of an option field's "Other, please specify" choice (allow_other)
+ * e.g. { value: "other", other_text: "Bicycle" }; in multi-value fields it
+ * takes the place of "other" in the array
+ */
+export interface OtherOptionValue {
+  value: string;
+  other_text: string;
 }
 
+/**
+ * Stored value of an address field
+ * State is an Australian state / territory code (e.g. "VIC") when the country
+ * is Australia (or blank), otherwise free text
+ */
+export interface AddressValue {
+  address_line_1?: string;
+  address_line_2?: string;
+  suburb?: string;
+  state?: string;
+  postcode?: string;
+  country?: string;
+  /** Copied from the field's address_copy_from address (kept in sync while set) */
+  same_as?: boolean;
+}
+
+/**
+ * Where an option field's options come from, for lists too long to inline
+ * - "static": an inline list, searched and paged in the combobox
+ * - "loader": a function registered with register_option_loader(name, loader)
+ * - "db": SQL run through services.db (hazo_connect). `query` receives
+ *   [search pattern ("%text%"), limit, offset]; `label_query` receives [value]
+ *   and resolves stored values' labels (view mode). Rows are read from
+ *   value_column / label_column (default "value" / "label")
+ * On fields with depends_on, static options are filtered by their `parent`,
+ * loaders receive `parent_value` and db queries get it as the first param.
+ */
+export type OptionSource =
+  | { type: "static"; options: OptionItem[]; page_size?: number }
+  | { type: "loader"; name: string; params?: Record<string, unknown>; page_size?: number }
+  | {
+      type: "db";
+      query: string;
+      label_query?: string;
+      value_column?: string;
+      label_column?: string;
+      page_size?: number;
+    };
+
 /**
  * Table column definition for table/array fields
  */
 export interface TableColumn {
   id: string;
   label: string;
-  field_info: Omit<FieldInfo, "table_columns" | "table_min_rows" | "table_max_rows">;
+  field_info: Omit<FieldInfo, "table_columns" | "table_min_rows" | "table_max_rows" | "table_row_rules">;
   width?: string;
   /** If true, display a subtotal for this column at the bottom of the table */
   subtotal?: boolean;
@@ -401,6 +477,31 @@ export interface TableColumn {
   default_value?: unknown;
   /** Optional reference value displayed below cell inputs (e.g., prior-year value, benchmark) */
   reference_value?: string;
+  /**
+   * Per-row formula referencing sibling column IDs (e.g., "quantity * unit_price")
+   * Computed columns are read-only and recalculate when cells in the row change
+   * Also accepted as field_info.computed_formula
+   */
+  computed_formula?: string;
+  /**
+   * Values in this column must not repeat across rows (empty cells are ignored)
+   * true for a single-column key; columns sharing the same key name form a composite key
+   * e.g. unique: "asset_key" on both "asset_id" and "location"
+   */
+  unique?: boolean | string;
+}
+
+/**
+ * Row-level rule for a table field, checked against every row
+ * e.g. { formula: "disposal_date == null || disposal_amount != null", column: "disposal_amount", message: "Required when a disposal date is set" }
+ */
+export interface TableRowRule {
+  /** Formula over the row's column IDs that must evaluate to true */
+  formula: string;
+  /** Error message shown on the cell when the formula is false */
+  message: string;
+  /** Column ID the error is reported on */
+  column: string;
 }
 
 /**
@@ -410,9 +511,42 @@ export interface FieldInfo {
   field_type: FieldType;
   required?: boolean;
   options?: OptionItem[];
+  /**
+   * How an option field is displayed: a dropdown (default), radio buttons,
+   * checkboxes ("select all that apply", stored as a string array) or a searchable combobox
+   */
+  option_display?: "select" | "radio" | "checkbox" | "combobox";
+  /**
+   * Load options from a source instead of inlining them; rendered as a searchable combobox
+   * ("combobox" display with inline options is the same as a static source)
+   */
+  option_source?: OptionSource;
+  /** Option field holds several values (string array); with "select", renders a multi-select */
+  multiple?: boolean;
+  /**
+   * Add an "Other" choice that reveals an inline text input ("Other, please specify")
+   * true for the label "Other", or the label to use. Stored as an OtherOptionValue;
+   * on required fields the text must be filled in.
+   */
+  allow_other?: boolean | string;
+  /**
+   * Field whose value narrows this option field's options (cascading lists, e.g. state -> suburb)
+   * In a table column, a sibling column ID, or otherwise a form field ID.
+   * When the parent changes, selected values no longer offered are cleared.
+   */
+  depends_on?: string;
+  /**
+   * Address fields: ID of another address field this one can copy, shown as a
+   * "same as" toggle (e.g. a postal address copying the residential address)
+   */
+  address_copy_from?: string;
+  /** Label of the copy toggle (default: "Same as residential address") */
+  address_copy_label?: string;
   min?: number;
   max?: number;
   decimal_places?: number;
+  /** Rounding mode for computed results and display (overrides config.rounding_mode) */
+  rounding_mode?: RoundingMode;
   currency_symbol?: string;
   min_length?: number;
   max_length?: number;
@@ -424,9 +558,20 @@ export interface FieldInfo {
   table_columns?: TableColumn[];
   table_min_rows?: number;
   table_max_rows?: number;
+  /** Row-level rules checked against each table row */
+  table_row_rules?: TableRowRule[];
   table_title?: string;  // Title displayed above the table (e.g., "WORKSHEET")
   /** Default value for this field when no value is provided */
   default_value?: unknown;
+  /** Named async validator (see register_async_validator); overrides the field type's */
+  async_validator?: string;
+  /** Milliseconds to wait after the last change before running async_validator */
+  async_debounce_ms?: number;
+  /**
+   * Severity of min/max, length, pattern and validator failures (required is always an error)
+   * Overrides the field type's validation_severity. Default: "error"
+   */
+  validation_severity?: ValidationSeverity;
 
   // Tax form specific properties
   badge?: string;
@@ -441,6 +586,45 @@ export interface FieldInfo {
   formula_label?: string;  // Plain text formula annotation displayed in badge column (e.g., "P less (Q + F + U)")
 }
 
+/**
+ * Single-field test used by visibility conditions
+ * When only `field` is set, the condition passes if the value is non-empty
+ */
+export interface FieldCondition {
+  /** Field ID whose current value is tested */
+  field: string;
+  /** Value must equal this (strict, after number/string coercion) */
+  equals?: unknown;
+  /** Value must not equal this */
+  not_equals?: unknown;
+  /** Value must be one of these */
+  in?: unknown[];
+  /** Value must not be any of these */
+  not_in?: unknown[];
+  /** Array value (e.g. a multi-select) must include this */
+  contains?: unknown;
+  /** Numeric value must be greater than this */
+  gt?: number;
+  /** Numeric value must be greater than or equal to this */
+  gte?: number;
+  /** Numeric value must be less than this */
+  lt?: number;
+  /** Numeric value must be less than or equal to this */
+  lte?: number;
+  /** true: value must be empty, false: value must be non-empty */
+  is_empty?: boolean;
+}
+
+/**
+ * Declarative condition for show_if / hide_if
+ * Field tests can be combined with all / any / not
+ */
+export type VisibilityCondition =
+  | FieldCondition
+  | { all: VisibilityCondition[] }
+  | { any: VisibilityCondition[] }
+  | { not: VisibilityCondition };
+
 /**
  * Label position for field layout
  * - "stacked": Label above the input field (default)
@@ -469,11 +653,22 @@ export interface FormField {
   row_variant?: "highlight" | "normal";
   /** Optional reference value displayed below the field (e.g., prior-year value, benchmark) */
   reference_value?: string;
+  /** Only render this field when the condition passes */
+  show_if?: VisibilityCondition;
+  /** Hide this field when the condition passes */
+  hide_if?: VisibilityCondition;
+  /** Grid columns spanned in a "grid" field group (default: 1; capped at the column count) */
+  col_span?: number;
+  /** Grid rows spanned in a "grid" field group (default: 1; ignored when collapsed to one column) */
+  row_span?: number;
   /**
    * Paired field for dual-column layouts (e.g., Capital gains / Capital losses)
    * When present, renders both fields on the same row with their own badge+value
    */
-  paired_field?: Omit<FormField, "label" | "paired_field" | "label_position">;
+  paired_field?: Omit<
+    FormField,
+    "label" | "paired_field" | "label_position" | "show_if" | "hide_if" | "col_span" | "row_span"
+  >;
 }
 
 /**
@@ -488,8 +683,16 @@ export interface ColumnHeader {
  * Field group with orientation
  */
 export interface FieldGroup {
-  orientation: "horizontal" | "vertical";
+  /** "grid" lays fields out in columns, with per-field col_span / row_span */
+  orientation: "horizontal" | "vertical" | "grid";
   fields: FormField[];
+  /** Number of grid columns (orientation "grid", default: 2) */
+  columns?: number;
+  /**
+   * Grid column counts by minimum group width in px, e.g. { "0": 1, "480": 2, "960": 4 }
+   * The largest matching width wins. Default: one column below 480px, then columns
+   */
+  responsive_columns?: Record<string, number>;
   /** Fixed width for badge column when badges should be aligned (e.g., "40px") */
   badge_column_width?: string;
   /** Fixed width for value column when values should be aligned (e.g., "80px") */
@@ -511,6 +714,38 @@ export interface SubSection {
   item_code?: string;  // Boxed prefix like [1], [10]
   badge?: string;  // Letter badge like "J", "M" displayed in header
   style_variant?: StyleVariant;  // e.g., "header_h2"
+  /** Only render this sub-section when the condition passes */
+  show_if?: VisibilityCondition;
+  /** Hide this sub-section when the condition passes */
+  hide_if?: VisibilityCondition;
+  /**
+   * Render the field group once per instance, with add / remove controls
+   * Values are stored as an array of objects (keyed by field ID) under sub_section_id
+   */
+  repeatable?: boolean;
+  /** Minimum number of instances (default: 0); new forms start with this many */
+  min_instances?: number;
+  /** Maximum number of instances */
+  max_instances?: number;
+  /** Instance heading; "{n}" is replaced by the instance number (default: "<sub_section_label> {n}") */
+  instance_label?: string;
+  /** Add button text (default: "Add another") */
+  add_button_text?: string;
+}
+
+/**
+ * Cross-field validation rule evaluated with the formula engine
+ * e.g. { formula: "end_date >= start_date", message: "End date must be after start date", field: "end_date" }
+ */
+export interface ValidationRule {
+  /** Formula that must evaluate to true for the values to be valid */
+  formula: string;
+  /** Error message shown when the formula is false */
+  message: string;
+  /** Field ID the error is reported on */
+  field: string;
+  /** "warning" and "info" rules are shown but don't block submit (default: "error") */
+  severity?: ValidationSeverity;
 }
 
 /**
@@ -521,6 +756,15 @@ export interface FormSection {
   sub_sections: SubSection[];
   sub_section_layout?: "vertical" | "horizontal";
   style_variant?: StyleVariant;  // e.g., "header_h1"
+  /** Only render this section when the condition passes */
+  show_if?: VisibilityCondition;
+  /** Hide this section when the condition passes */
+  hide_if?: VisibilityCondition;
+  /**
+   * Cross-field rules checked on validation (skipped while the section or target field is hidden)
+   * Targets can be any field in the form
+   */
+  validation_rules?: ValidationRule[];
 }
 
 /**
@@ -528,6 +772,32 @@ export interface FormSection {
  */
 export type FormSchema = FormSection[];
 
+/**
+ * Step of the wizard layout: one or more sections shown together
+ */
+export interface WizardStep {
+  /** Step ID reported in WizardProgress (default: the first section name) */
+  id?: string;
+  title: string;
+  description?: string;
+  /** Sections shown in this step, by section_name */
+  section_names: string[];
+}
+
+/**
+ * Wizard position, reported by on_wizard_step_change (e.g. to persist the current step)
+ */
+export interface WizardProgress {
+  step_index: number;
+  /** Step ID ("review" for the review step) */
+  step_id: string;
+  /** Number of steps, including the review step */
+  step_count: number;
+  is_review: boolean;
+  /** Steps that passed validation via Next */
+  completed_step_ids: string[];
+}
+
 /**
  * Form values as a flat key-value map
  */
@@ -552,11 +822,54 @@ export interface DocLinkClickEvent {
   doc_links: DocLink[];
 }
 
+/**
+ * Rounding mode for decimal results
+ * - half_up: halves round away from zero (2.345 -> 2.35)
+ * - half_even: halves round to the even digit, aka banker's rounding (2.345 -> 2.34)
+ * - truncate: extra digits are dropped (2.349 -> 2.34)
+ */
+export type RoundingMode = "half_up" | "half_even" | "truncate";
+
 /**
  * Form validation errors
  */
 export type FormErrors = Record<string, string>;
 
+/**
+ * Validation message severity
+ * - error: blocks submit
+ * - warning: shown in the warning style, doesn't block submit
+ * - info: shown as a note, doesn't block submit
+ */
+export type ValidationSeverity = "error" | "warning" | "info";
+
+/**
+ * Validation message with a severity (severity defaults to "error")
+ */
+export interface ValidationMessage {
+  message: string;
+  severity?: ValidationSeverity;
+}
+
+/**
+ * Non-blocking validation message
+ */
+export interface FieldWarning {
+  message: string;
+  severity: Exclude<ValidationSeverity, "error">;
+}
+
+/**
+ * Non-blocking validation messages (warnings and info) by field ID
+ */
+export type FormWarnings = Record<string, FieldWarning>;
+
+/**
+ * Custom validation result: plain strings are errors, ValidationMessage
+ * entries can be downgraded to warnings or info
+ */
+export type FormValidationResult = Record<string, string | ValidationMessage>;
+
 // =============================================================================
 // FORM CONFIG
 // =============================================================================
@@ -584,12 +897,16 @@ export interface FormConfig {
   date_format: string;
   default_decimal_places: number;
   percentage_suffix: string;
+  /** Default rounding mode for computed values, totals and display */
+  rounding_mode: RoundingMode;
 
   // Feature flags
   enable_pdf_panel?: boolean;
   collapsible_sections?: boolean;
   validate_on_blur?: boolean;
   validate_on_change?: boolean;
+  /** Default debounce (ms) before async validators run */
+  async_debounce_ms: number;
 
   // File upload settings
   file_upload: FileUploadConfig;
@@ -619,6 +936,10 @@ export interface FormConfig {
   section_header_background: string;
   sub_section_header_color: string;
   error_color: string;
+  /** Text color for warning-severity validation messages */
+  warning_color: string;
+  /** Text color for info-severity validation messages */
+  info_color: string;
   doc_link_icon_color: string;
   doc_link_hover_color: string;
   view_mode_background: string;
@@ -881,6 +1202,7 @@ export const DEFAULT_FIELD_TYPES_CONFIG: FieldTypesConfig = {
       max_length: 11,
       digit_count: 9,
       validation_message: "Tax File Number must be 9 digits",
+      validator: "tfn_checksum",
       input_mode: "numeric",
       style_class: "field_mono",
     },
@@ -894,6 +1216,49 @@ export const DEFAULT_FIELD_TYPES_CONFIG: FieldTypesConfig = {
       max_length: 14,
       digit_count: 11,
       validation_message: "Australian Business Number must be 11 digits",
+      validator: "abn_checksum",
+      input_mode: "numeric",
+      style_class: "field_mono",
+    },
+    acn: {
+      base_type: "text",
+      label: "Australian Company Number",
+      pattern: "^\\d{9}$",
+      display_format: "XXX XXX XXX",
+      input_mask: "### ### ###",
+      placeholder: "XXX XXX XXX",
+      max_length: 11,
+      digit_count: 9,
+      validation_message: "Australian Company Number must be 9 digits",
+      validator: "acn_checksum",
+      input_mode: "numeric",
+      style_class: "field_mono",
+    },
+    bsb: {
+      base_type: "text",
+      label: "BSB Number",
+      pattern: "^\\d{6}$",
+      display_format: "XXX-XXX",
+      input_mask: "###-###",
+      placeholder: "123-456",
+      max_length: 7,
+      digit_count: 6,
+      validation_message: "BSB must be 6 digits",
+      validator: "bsb_format",
+      input_mode: "numeric",
+      style_class: "field_mono",
+    },
+    medicare_au: {
+      base_type: "text",
+      label: "Medicare Number",
+      pattern: "^\\d{10,11}$",
+      display_format: "XXXX XXXXX X X",
+      input_mask: "#### ##### # #",
+      placeholder: "XXXX XXXXX X X",
+      max_length: 14,
+      digit_count: 11,
+      validation_message: "Medicare number must be 10 digits (11 with the reference number)",
+      validator: "medicare_checksum",
       input_mode: "numeric",
       style_class: "field_mono",
     },
@@ -923,12 +1288,14 @@ export const DEFAULT_FORM_CONFIG: FormConfig = {
   date_format: "MMM d, yyyy",
   default_decimal_places: 2,
   percentage_suffix: "%",
+  rounding_mode: "half_up",
 
   // Feature flags
   enable_pdf_panel: true,
   collapsible_sections: false,
   validate_on_blur: true,
   validate_on_change: false,
+  async_debounce_ms: 400,
 
   // File upload settings
   file_upload: {
@@ -976,6 +1343,8 @@ export const DEFAULT_FORM_CONFIG: FormConfig = {
   section_header_background: "#1e3a5f",
   sub_section_header_color: "#374151",
   error_color: "#dc2626",
+  warning_color: "#b45309",
+  info_color: "#2563eb",
   doc_link_icon_color: "#3b82f6",
   doc_link_hover_color: "#1d4ed8",
   view_mode_background: "#f9fafb",
@@ -1,6 +1,9 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
-import type { DocLink, DocLinkType, FieldUploads, FormValues, UploadedFile } from "./types";
+import type { DocLink, DocLinkType, FieldUploads, FormValues, RoundingMode, UploadedFile } from "./types";
+import { evaluate_expression, formula_to_number } from "./formula_engine";
+import { format_decimal } from "./decimal";
+import { get_value_at_path } from "./value_paths";
 
 /**
  * Merge Tailwind CSS classes with proper precedence
@@ -58,13 +61,15 @@ export function parse_string(
 
 /**
  * Format a number as currency
+ * Rounds with exact decimal arithmetic (1.005 -> $1.01 with half_up)
  */
 export function format_currency(
   value: number,
   symbol: string = "$",
-  decimal_places: number = 2
+  decimal_places: number = 2,
+  rounding_mode: RoundingMode = "half_up"
 ): string {
-  const formatted = value.toFixed(decimal_places);
+  const formatted = format_decimal(value, decimal_places, rounding_mode);
   const parts = formatted.split(".");
   parts[0] = parts[0].replace(/\B(?=(\d{3})+(?!\d))/g, ",");
   return `${symbol}${parts.join(".")}`;
@@ -76,9 +81,10 @@ export function format_currency(
 export function format_percentage(
   value: number,
   decimal_places: number = 2,
-  suffix: string = "%"
+  suffix: string = "%",
+  rounding_mode: RoundingMode = "half_up"
 ): string {
-  return `${value.toFixed(decimal_places)}${suffix}`;
+  return `${format_decimal(value, decimal_places, rounding_mode)}${suffix}`;
 }
 
 /**
@@ -171,107 +177,75 @@ export function deep_merge<T extends Record<string, unknown>>(
 }
 
 /**
- * Evaluate TABLE_SUM function
- * Syntax: TABLE_SUM(table_id, sum_column, filter_column, filter_value)
- * Returns the sum of sum_column values where filter_column equals filter_value
+ * Compare two values by content (arrays by order, objects regardless of key order)
  */
-function evaluate_table_sum(
-  args: string[],
-  values: Record<string, unknown>
-): number | null {
-  if (args.length !== 4) {
-    console.warn("TABLE_SUM requires 4 arguments: table_id, sum_column, filter_column, filter_value");
-    return null;
+export function deep_equal(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
   }
-
-  const [table_id, sum_column, filter_column, filter_value] = args.map(a => a.trim());
-  const table_data = values[table_id];
-
-  if (!Array.isArray(table_data)) {
-    return null;
+  if (Array.isArray(a) || Array.isArray(b)) {
+    return (
+      Array.isArray(a) &&
+      Array.isArray(b) &&
+      a.length === b.length &&
+      a.every((item, index) => deep_equal(item, b[index]))
+    );
   }
+  const a_record = a as Record<string, unknown>;
+  const b_record = b as Record<string, unknown>;
+  const a_keys = Object.keys(a_record);
+  if (a_keys.length !== Object.keys(b_record).length) return false;
+  return a_keys.every(
+    (key) => Object.prototype.hasOwnProperty.call(b_record, key) && deep_equal(a_record[key], b_record[key])
+  );
+}
 
-  let sum = 0;
-  for (const row of table_data) {
-    if (typeof row === "object" && row !== null) {
-      const row_obj = row as Record<string, unknown>;
-      const row_filter_value = String(row_obj[filter_column]).toLowerCase();
-      const target_filter_value = filter_value.toLowerCase();
-      // Check if filter matches
-      if (row_filter_value === target_filter_value) {
-        const val = row_obj[sum_column];
-        const num = typeof val === "number" ? val : parseFloat(String(val));
-        if (!isNaN(num)) {
-          sum += num;
-        }
-      }
-    }
+/**
+ * Copy nested plain objects and arrays, so later changes to the original don't show
+ * in the copy (other objects, e.g. Files and Dates, are shared)
+ */
+export function copy_plain_values<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(copy_plain_values) as T;
   }
-
-  return sum;
+  if (value && typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, item]) => [key, copy_plain_values(item)])
+    ) as T;
+  }
+  return value;
 }
 
 /**
- * Safely evaluate a computed formula
- * Supports basic arithmetic operations and TABLE_SUM function for security
+ * Safely evaluate a computed formula and return a numeric result
+ * Formulas are parsed and evaluated by the formula engine (no eval / new Function)
  *
- * Supported functions:
- * - TABLE_SUM(table_id, sum_column, filter_column, filter_value)
- *   Sums values from a table column where another column matches a filter value
+ * Supported syntax:
+ * - Arithmetic: + - * / % and parentheses
+ * - Comparison: == != < <= > >= (also = and <>)
+ * - Logical: && || !
+ * - Conditional: condition ? a : b, or IF(condition, a, b)
+ * - Functions: SUM, MIN, MAX, ROUND(value, digits), ABS, FLOOR, CEIL
+ * - TABLE_SUM / TABLE_AVG / TABLE_MIN / TABLE_MAX(table_id, column [, filter_column, criterion]...)
+ * - TABLE_COUNT(table_id [, filter_column, criterion]...)
+ *   Aggregate a table column over the rows that pass every filter. Criteria are
+ *   values (matched regardless of case) or start with an operator (">=100", "<>expense")
+ *
+ * Empty field values count as 0. Booleans become 1/0. Returns null when the
+ * formula is invalid or the result isn't a finite number.
  */
 export function evaluate_formula(
   formula: string,
   values: Record<string, unknown>
 ): number | null {
-  try {
-    // Replace field references with their values
-    let expression = formula;
-
-    // First, process TABLE_SUM functions
-    if (formula.includes("TABLE_SUM")) {
-      const table_sum_regex = /TABLE_SUM\s*\(\s*([^,]+)\s*,\s*([^,]+)\s*,\s*([^,]+)\s*,\s*([^)]+)\s*\)/gi;
-      expression = expression.replace(table_sum_regex, (match, table_id, sum_col, filter_col, filter_val) => {
-        const result = evaluate_table_sum([table_id, sum_col, filter_col, filter_val], values);
-        return result !== null ? String(result) : "0";
-      });
-    }
-
-    // Find all remaining field references (alphanumeric with underscores)
-    // But skip keywords that might appear in function names
-    const field_refs = expression.match(/[a-zA-Z_][a-zA-Z0-9_]*/g) || [];
-
-    for (const ref of field_refs) {
-      // Skip if it looks like a function name we already processed
-      if (ref.toUpperCase() === "TABLE_SUM") continue;
-
-      const value = values[ref];
-      if (typeof value === "number") {
-        expression = expression.replace(new RegExp(`\\b${ref}\\b`, "g"), String(value));
-      } else if (typeof value === "string" && !isNaN(parseFloat(value))) {
-        expression = expression.replace(new RegExp(`\\b${ref}\\b`, "g"), value);
-      } else if (value === undefined || value === null || value === "") {
-        // Treat undefined/null/empty as 0 for calculations
-        expression = expression.replace(new RegExp(`\\b${ref}\\b`, "g"), "0");
-      } else {
-        // If any referenced field is not a number, return null
-        return null;
-      }
-    }
-
-    // Validate that expression only contains safe characters
-    if (!/^[\d\s+\-*/().]+$/.test(expression)) {
-      console.warn("Invalid formula expression:", expression);
-      return null;
-    }
-
-    // Evaluate the expression
-    // Using Function constructor is safe here because we've validated the input
-    const result = new Function(`return (${expression})`)();
-    return typeof result === "number" && !isNaN(result) ? result : null;
-  } catch (error) {
-    console.warn("Formula evaluation error:", error);
+  const result = evaluate_expression(formula, values);
+  if (result === null) {
     return null;
   }
+  const num = typeof result === "boolean" ? (result ? 1 : 0) : formula_to_number(result);
+  return isFinite(num) ? num : null;
 }
 
 /**
@@ -284,13 +258,14 @@ export function get_uploads_key(field_id: string): string {
 
 /**
  * Extract uploads from form values for a field
+ * Uploads of dotted / instance field IDs are stored next to the nested value
  */
 export function get_field_uploads(
   values: FormValues,
   field_id: string
 ): FieldUploads {
   const key = get_uploads_key(field_id);
-  return (values[key] as FieldUploads) || [];
+  return (get_value_at_path(values, key) as FieldUploads) || [];
 }
 
 /**
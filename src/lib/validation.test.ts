@@ -0,0 +1,404 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  evaluate_validation_rules,
+  evaluate_validation_warnings,
+  get_rule_dependents,
+  get_table_cell_errors,
+  validate_section_values,
+  validate_values,
+} from "./validation";
+import type { FieldInfo, FormConfig, FormField, FormSchema, SubSection, TableColumn, ValidationRule } from "./types";
+import { DEFAULT_FORM_CONFIG } from "./types";
+
+/**
+ * Build a field with a label from its ID
+ */
+function field(id: string, field_info: FieldInfo, extra: Partial<FormField> = {}): FormField {
+  return { id, label: id, field_info, ...extra };
+}
+
+/**
+ * Build a single-sub-section section
+ */
+function section(
+  section_name: string,
+  fields: FormField[],
+  validation_rules?: ValidationRule[],
+  sub_section: Partial<SubSection> = {}
+): FormSchema[number] {
+  return {
+    section_name,
+    sub_sections: [
+      {
+        sub_section_id: `${section_name}_details`,
+        sub_section_label: section_name,
+        field_group: { orientation: "vertical", fields },
+        ...sub_section,
+      },
+    ],
+    validation_rules,
+  };
+}
+
+describe("evaluate_validation_rules", () => {
+  const schema: FormSchema = [
+    section(
+      "income",
+      [
+        field("salary", { field_type: "currency" }),
+        field("bonus", { field_type: "currency" }),
+        field("has_spouse", { field_type: "boolean" }),
+        field("spouse_income", { field_type: "currency" }, { show_if: { field: "has_spouse", equals: true } }),
+      ],
+      [
+        { field: "bonus", formula: "bonus <= salary", message: "Bonus can't exceed salary" },
+        { field: "bonus", formula: "bonus >= 0", message: "Bonus can't be negative" },
+        { field: "bonus", formula: "bonus < 1000000", message: "Check the bonus", severity: "warning" },
+        { field: "spouse_income", formula: "spouse_income > 0", message: "Enter the spouse's income" },
+      ]
+    ),
+    section("totals", [field("total", { field_type: "currency" })], [
+      { field: "total", formula: "total == salary + bonus", message: "Total must equal salary plus bonus" },
+    ]),
+  ];
+
+  it("reports failing error rules on their target field", () => {
+    expect(evaluate_validation_rules(schema, { salary: 100, bonus: 200, total: 300 })).toEqual({
+      bonus: "Bonus can't exceed salary",
+    });
+    expect(evaluate_validation_rules(schema, { salary: 100, bonus: 50, total: 100 })).toEqual({
+      total: "Total must equal salary plus bonus",
+    });
+    expect(evaluate_validation_rules(schema, { salary: 100, bonus: 50, total: 150 })).toEqual({});
+  });
+
+  it("reports the first failing rule per field in schema order", () => {
+    // Both bonus rules fail
+    expect(evaluate_validation_rules(schema, { salary: -10, bonus: -5, total: -15 })).toEqual({
+      bonus: "Bonus can't exceed salary",
+    });
+    expect(evaluate_validation_rules(schema, { salary: 100, bonus: -5, total: 95 })).toEqual({
+      bonus: "Bonus can't be negative",
+    });
+  });
+
+  it("leaves warning rules to evaluate_validation_warnings", () => {
+    const values = { salary: 5000000, bonus: 2000000, total: 7000000 };
+    expect(evaluate_validation_rules(schema, values)).toEqual({});
+    expect(evaluate_validation_warnings(schema, values)).toEqual({
+      bonus: { message: "Check the bonus", severity: "warning" },
+    });
+  });
+
+  it("skips rules targeting hidden fields", () => {
+    const values = { salary: 100, bonus: 0, total: 100, spouse_income: 0 };
+    expect(evaluate_validation_rules(schema, { ...values, has_spouse: false })).toEqual({});
+    expect(evaluate_validation_rules(schema, { ...values, has_spouse: true })).toEqual({
+      spouse_income: "Enter the spouse's income",
+    });
+  });
+
+  it("skips rules in hidden sections and leaves hidden values out of formulas", () => {
+    const hidden_schema: FormSchema = [
+      {
+        ...section("extra", [field("extra", { field_type: "number" })], [
+          { field: "extra", formula: "extra > 0", message: "Extra must be positive" },
+        ]),
+        show_if: { field: "mode", equals: "advanced" },
+      },
+      section(
+        "main",
+        [
+          field("mode", { field_type: "text" }),
+          field("discount", { field_type: "number" }, { hide_if: { field: "mode", equals: "basic" } }),
+          field("price", { field_type: "number" }),
+        ],
+        [{ field: "price", formula: "price > discount", message: "Price must exceed the discount" }]
+      ),
+    ];
+    expect(evaluate_validation_rules(hidden_schema, { mode: "basic", extra: 0, price: 5, discount: 10 })).toEqual({});
+    expect(evaluate_validation_rules(hidden_schema, { mode: "advanced", extra: 0, price: 5, discount: 10 })).toEqual({
+      extra: "Extra must be positive",
+      price: "Price must exceed the discount",
+    });
+  });
+
+  it("evaluates only the rules targeting the given fields", () => {
+    const values = { salary: 100, bonus: 200, total: 0 };
+    expect(evaluate_validation_rules(schema, values, ["total"])).toEqual({
+      total: "Total must equal salary plus bonus",
+    });
+    expect(evaluate_validation_rules(schema, values, ["salary"])).toEqual({});
+  });
+
+  it("reads nested values through dotted paths", () => {
+    const nested_schema: FormSchema = [
+      section("spouse", [field("spouse.income.salary", { field_type: "currency" })], [
+        { field: "spouse.income.salary", formula: "spouse.income.salary >= 0", message: "Salary can't be negative" },
+      ]),
+    ];
+    expect(evaluate_validation_rules(nested_schema, { spouse: { income: { salary: -1 } } })).toEqual({
+      "spouse.income.salary": "Salary can't be negative",
+    });
+  });
+
+  describe("invalid formulas", () => {
+    let warn: ReturnType<typeof vi.spyOn>;
+
+    beforeEach(() => {
+      warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      warn.mockRestore();
+    });
+
+    it("treats rules that don't parse as passing", () => {
+      const broken_schema: FormSchema = [
+        section("broken", [field("a", { field_type: "number" })], [
+          { field: "a", formula: "a >", message: "Never shown" },
+        ]),
+      ];
+      expect(evaluate_validation_rules(broken_schema, { a: 1 })).toEqual({});
+      expect(warn).toHaveBeenCalledWith(
+        'Invalid validation rule for "a" ("a >"): Unexpected end of formula at position 3'
+      );
+    });
+  });
+});
+
+describe("get_rule_dependents", () => {
+  it("maps each referenced field to the rule targets that read it", () => {
+    const schema: FormSchema = [
+      section("income", [], [
+        { field: "bonus", formula: "bonus <= salary", message: "" },
+        { field: "total", formula: "total == salary + bonus", message: "" },
+      ]),
+    ];
+    expect(get_rule_dependents(schema)).toEqual({ salary: ["bonus", "total"], bonus: ["total"] });
+  });
+});
+
+describe("validate_values", () => {
+  const schema: FormSchema = [
+    section(
+      "details",
+      [
+        field("name", { field_type: "text", required: true, min_length: 2, max_length: 10 }),
+        field("age", { field_type: "number", min: 18, max: 99 }),
+        field("abn", { field_type: "abn" }),
+        field("agree", { field_type: "boolean", required: true }),
+        field("has_partner", { field_type: "boolean" }),
+        field("partner_name", { field_type: "text", required: true }, {
+          show_if: { field: "has_partner", equals: true },
+        }),
+      ],
+      [{ field: "age", formula: "age >= 21 || !has_partner", message: "Partners must be 21 or over" }]
+    ),
+    section(
+      "dependants",
+      [
+        field("dependant_name", { field_type: "text", required: true }),
+        field("dependant_age", { field_type: "number", max: 25 }),
+      ],
+      undefined,
+      { sub_section_id: "dependants", repeatable: true, min_instances: 1, max_instances: 2 }
+    ),
+  ];
+  const valid_values = {
+    name: "Sam",
+    age: 30,
+    abn: "51824753556",
+    agree: true,
+    has_partner: false,
+    dependants: [{ dependant_name: "Alex", dependant_age: 4 }],
+  };
+
+  it("returns no errors for valid values", () => {
+    expect(validate_values(schema, valid_values)).toEqual({});
+  });
+
+  it("reports required, length and min/max errors", () => {
+    expect(validate_values(schema, { ...valid_values, name: "", agree: false, age: 17 })).toEqual({
+      name: "name is required",
+      agree: "agree is required",
+      age: "Minimum value is 18",
+    });
+    expect(validate_values(schema, { ...valid_values, name: "S", age: "100" })).toEqual({
+      name: "Minimum length is 2 characters",
+      age: "Maximum value is 99",
+    });
+    expect(validate_values(schema, { ...valid_values, name: "Samantha Jones" }).name).toBe(
+      "Maximum length is 10 characters"
+    );
+  });
+
+  it("checks field type patterns and named validators", () => {
+    expect(validate_values(schema, { ...valid_values, abn: "5182475355" }).abn).toBe(
+      "Australian Business Number must be 11 digits"
+    );
+    expect(validate_values(schema, { ...valid_values, abn: "51824753557" }).abn).toBe(
+      "Invalid Australian Business Number"
+    );
+  });
+
+  it("uses the given config's field types", () => {
+    const config: FormConfig = {
+      ...DEFAULT_FORM_CONFIG,
+      field_types_config: {
+        field_types: {
+          postcode: { base_type: "text", pattern: "^\\d{4}$", validation_message: "Postcode must be 4 digits" },
+        },
+      },
+    };
+    const postcode_schema: FormSchema = [section("address", [field("postcode", { field_type: "postcode" })])];
+    expect(validate_values(postcode_schema, { postcode: "20000" }, config)).toEqual({
+      postcode: "Postcode must be 4 digits",
+    });
+    expect(validate_values(postcode_schema, { postcode: "2000" }, config)).toEqual({});
+  });
+
+  it("adds cross-field rule errors to fields without a built-in error", () => {
+    expect(validate_values(schema, { ...valid_values, has_partner: true, partner_name: "Kim", age: 19 })).toEqual({
+      age: "Partners must be 21 or over",
+    });
+    expect(validate_values(schema, { ...valid_values, has_partner: true, partner_name: "Kim", age: 17 })).toEqual({
+      age: "Minimum value is 18",
+    });
+  });
+
+  it("skips hidden fields", () => {
+    expect(validate_values(schema, { ...valid_values, partner_name: "" })).toEqual({});
+    expect(validate_values(schema, { ...valid_values, has_partner: true, partner_name: "" })).toEqual({
+      partner_name: "partner_name is required",
+    });
+  });
+
+  it("reports repeatable instance fields by instance path, and the instance count", () => {
+    expect(
+      validate_values(schema, {
+        ...valid_values,
+        dependants: [
+          { dependant_name: "Alex", dependant_age: 4 },
+          { dependant_name: "", dependant_age: 30 },
+        ],
+      })
+    ).toEqual({
+      "dependants.1.dependant_name": "dependant_name is required",
+      "dependants.1.dependant_age": "Maximum value is 25",
+    });
+    expect(validate_values(schema, { ...valid_values, dependants: [] })).toEqual({
+      dependants: "dependants requires at least 1 entry",
+    });
+    expect(validate_values(schema, { ...valid_values, dependants: [{}, {}, {}] }).dependants).toBe(
+      "dependants allows at most 2 entries"
+    );
+  });
+
+  it("reads nested values through dotted paths", () => {
+    const nested_schema: FormSchema = [
+      section("spouse", [field("spouse.income.salary", { field_type: "currency", required: true })]),
+    ];
+    expect(validate_values(nested_schema, { spouse: { income: { salary: "" } } })).toEqual({
+      "spouse.income.salary": "spouse.income.salary is required",
+    });
+    expect(validate_values(nested_schema, { spouse: { income: { salary: 10 } } })).toEqual({});
+  });
+});
+
+describe("validate_section_values", () => {
+  it("checks only the given sections' fields and the rules reporting on them", () => {
+    const schema: FormSchema = [
+      section("first", [field("a", { field_type: "number", required: true })], [
+        { field: "b", formula: "b > a", message: "B must exceed A" },
+      ]),
+      section("second", [field("b", { field_type: "number", required: true })]),
+    ];
+    expect(validate_section_values(schema, { a: 5, b: 1 }, DEFAULT_FORM_CONFIG, ["second"])).toEqual({
+      b: "B must exceed A",
+    });
+    expect(validate_section_values(schema, { b: 10 }, DEFAULT_FORM_CONFIG, ["second"])).toEqual({});
+    expect(validate_section_values(schema, { b: 10 }, DEFAULT_FORM_CONFIG, ["first"])).toEqual({
+      a: "a is required",
+    });
+  });
+});
+
+describe("get_table_cell_errors", () => {
+  const columns: TableColumn[] = [
+    { id: "asset_id", label: "Asset ID", field_info: { field_type: "text", required: true }, unique: "asset_key" },
+    { id: "location", label: "Location", field_info: { field_type: "text" }, unique: "asset_key" },
+    { id: "serial", label: "Serial", field_info: { field_type: "text" }, unique: true },
+    { id: "cost", label: "Cost", field_info: { field_type: "currency", min: 0 } },
+    { id: "salvage", label: "Salvage", field_info: { field_type: "currency" } },
+    {
+      id: "depreciable",
+      label: "Depreciable",
+      field_info: { field_type: "currency" },
+      computed_formula: "cost - salvage",
+    },
+  ];
+  const table = field("assets", {
+    field_type: "table",
+    table_columns: columns,
+    table_row_rules: [
+      { column: "salvage", formula: "depreciable >= 0", message: "Salvage can't exceed cost" },
+      { column: "cost", formula: "cost > 0", message: "Enter a cost" },
+    ],
+  });
+
+  it("flags later rows repeating a single-column key", () => {
+    const rows = [
+      { asset_id: "A1", location: "Sydney", serial: "S1", cost: 10, salvage: 0 },
+      { asset_id: "A2", location: "Sydney", serial: " S1 ", cost: 10, salvage: 0 },
+      { asset_id: "A3", location: "Sydney", serial: "", cost: 10, salvage: 0 },
+      { asset_id: "A4", location: "Sydney", serial: "", cost: 10, salvage: 0 },
+    ];
+    expect(get_table_cell_errors(table, rows, DEFAULT_FORM_CONFIG)).toEqual([
+      { row_index: 1, column_id: "serial", message: "Duplicate of row 1" },
+    ]);
+  });
+
+  it("flags composite keys on each key column only when every part repeats", () => {
+    const rows = [
+      { asset_id: "A1", location: "Sydney", cost: 10, salvage: 0 },
+      { asset_id: "A1", location: "Perth", cost: 10, salvage: 0 },
+      { asset_id: "A1", location: "Sydney", cost: 10, salvage: 0 },
+    ];
+    expect(get_table_cell_errors(table, rows, DEFAULT_FORM_CONFIG)).toEqual([
+      { row_index: 2, column_id: "asset_id", message: "Duplicate of row 1" },
+      { row_index: 2, column_id: "location", message: "Duplicate of row 1" },
+    ]);
+  });
+
+  it("reports row rule failures on the rule's column, reading computed columns", () => {
+    const rows = [
+      { asset_id: "A1", cost: 100, salvage: 150 },
+      { asset_id: "A2", cost: 0, salvage: 0 },
+      { asset_id: "A3", cost: 100, salvage: 20 },
+    ];
+    expect(get_table_cell_errors(table, rows, DEFAULT_FORM_CONFIG)).toEqual([
+      { row_index: 0, column_id: "salvage", message: "Salvage can't exceed cost" },
+      { row_index: 1, column_id: "cost", message: "Enter a cost" },
+    ]);
+  });
+
+  it("keeps the first failure per cell, column rules first", () => {
+    const rows = [{ asset_id: "", cost: -5, salvage: -10 }];
+    expect(get_table_cell_errors(table, rows, DEFAULT_FORM_CONFIG)).toEqual([
+      { row_index: 0, column_id: "asset_id", message: "This field is required" },
+      { row_index: 0, column_id: "cost", message: "Minimum value is 0" },
+    ]);
+  });
+
+  it("summarises the cell errors as the table's field error", () => {
+    const rows = [
+      { asset_id: "A1", serial: "S1", cost: 100, salvage: 0 },
+      { asset_id: "A2", serial: "S1", cost: 100, salvage: 200 },
+    ];
+    const schema: FormSchema = [section("assets", [table])];
+    expect(validate_values(schema, { assets: rows })).toEqual({
+      assets: "Row 2, Serial: Duplicate of row 1 (and 1 more)",
+    });
+  });
+});
@@ -0,0 +1,898 @@
+import type {
+  FieldWarning,
+  FormConfig,
+  FormErrors,
+  FormField,
+  FormSchema,
+  FormSection,
+  FormValidationResult,
+  FormValues,
+  FormWarnings,
+  SubSection,
+  TableColumn,
+  ValidationMessage,
+  ValidationRule,
+  ValidationSeverity,
+} from "./types";
+import { DEFAULT_FORM_CONFIG } from "./types";
+import { evaluate_formula_ast, formula_to_boolean, get_formula_references, parse_formula } from "./formula_engine";
+import { get_hidden_field_ids, is_item_visible, omit_hidden_values } from "./conditions";
+import { get_base_field_type, resolve_field_type } from "./field_registry";
+import { apply_table_formulas, is_computed_column } from "./table_formulas";
+import { get_instance_fields, get_instances } from "./repeatable_sections";
+import { get_value_at_path } from "./value_paths";
+import { count_errors_by_section, find_field_location } from "./error_summary";
+import { has_blank_other_text } from "./options";
+import { check_address, is_empty_address } from "./address";
+import type { HazoServices } from "../context/services_context";
+import { get_async_validator, get_validator, type AsyncValidatorContext } from "./validator_registry";
+
+/**
+ * Validation pure functions shared by the form (via react-hook-form rules)
+ * and headless validate_values(). No React or DOM dependencies.
+ */
+
+/**
+ * Per-field rules in react-hook-form's RegisterOptions shape
+ */
+export interface FieldValidationRules {
+  required?: string;
+  min?: { value: number; message: string };
+  max?: { value: number; message: string };
+  minLength?: { value: number; message: string };
+  maxLength?: { value: number; message: string };
+  pattern?: { value: RegExp; message: string };
+  /** Named validators keyed by name; each returns true or an error message */
+  validate?: Record<string, (value: unknown) => true | string>;
+}
+
+/**
+ * Build the validation rules for a field from its field_info and field type definition
+ * Custom field types (form_field_types.json) contribute pattern, min/max and
+ * min_length/max_length. The type's min/max take precedence over the field's;
+ * min_length/max_length set on the field take precedence over the type's.
+ * Paired fields pass their own field_info with the parent label.
+ *
+ * Only error-severity checks are included: with validation_severity "warning" or
+ * "info" the constraints are reported by get_field_warning() instead.
+ */
+export function get_field_validation_rules(
+  field: Pick<FormField, "label" | "field_info">,
+  config: FormConfig
+): FieldValidationRules {
+  const field_info = field.field_info;
+  const type_definition = resolve_field_type(field_info.field_type, config);
+  const severity = get_validation_severity(field, config);
+  const rules: FieldValidationRules = {};
+
+  if (field_info.required) {
+    rules.required = `${field.label || "This field"} is required`;
+  }
+
+  if (severity === "error") {
+    Object.assign(rules, get_constraint_rules(field, config));
+  }
+
+  // Named validator (e.g. "abn_checksum"), looked up when the value is checked
+  // Failures that resolve to a warning / info severity pass here
+  if (type_definition?.validator) {
+    const validator_name = type_definition.validator;
+    const fallback_message = type_definition.validation_message || "Invalid value";
+    rules.validate = {
+      ...rules.validate,
+      [validator_name]: (value: unknown) => {
+        const result = run_named_validator(validator_name, value, fallback_message);
+        return result === true || (result.severity ?? severity) !== "error" ? true : result.message;
+      },
+    };
+  }
+
+  // Tables check their row count, then every cell against its column
+  if (field_info.field_type === "table") {
+    rules.validate = {
+      ...rules.validate,
+      table_rows: (value: unknown) => check_table_rows(field, value) ?? true,
+      table_cells: (value: unknown) => check_table_cells(field, value, config) ?? true,
+    };
+  }
+
+  // Objects always pass react-hook-form's required check, so addresses check for an empty one
+  if (field_info.required && get_base_field_type(field_info.field_type, config) === "address") {
+    const required_message = `${field.label || "This field"} is required`;
+    rules.validate = {
+      ...rules.validate,
+      address_required: (value: unknown) => (is_empty_address(value) ? required_message : true),
+    };
+  }
+
+  // An "Other" choice only answers a required field once its text is filled in
+  if (field_info.required && field_info.allow_other && field_info.field_type === "option") {
+    const required_message = `${field.label || "This field"} is required`;
+    rules.validate = {
+      ...rules.validate,
+      other_text: (value: unknown) => (has_blank_other_text(value) ? required_message : true),
+    };
+  }
+
+  return rules;
+}
+
+/**
+ * Get the severity of a field's constraint failures:
+ * field_info.validation_severity, then the field type's, then "error"
+ */
+export function get_validation_severity(
+  field: Pick<FormField, "field_info">,
+  config: FormConfig
+): ValidationSeverity {
+  const type_definition = resolve_field_type(field.field_info.field_type, config);
+  return field.field_info.validation_severity ?? type_definition?.validation_severity ?? "error";
+}
+
+/**
+ * min/max, min_length/max_length and pattern rules for a field
+ */
+function get_constraint_rules(
+  field: Pick<FormField, "field_info">,
+  config: FormConfig
+): FieldValidationRules {
+  const field_info = field.field_info;
+  const type_definition = resolve_field_type(field_info.field_type, config);
+  const min = type_definition?.min ?? field_info.min;
+  const max = type_definition?.max ?? field_info.max;
+  const min_length = field_info.min_length ?? type_definition?.min_length;
+  const max_length = field_info.max_length ?? type_definition?.max_length;
+  const rules: FieldValidationRules = {};
+
+  if (min !== undefined) {
+    rules.min = {
+      value: min,
+      message: `Minimum value is ${min}`,
+    };
+  }
+
+  if (max !== undefined) {
+    rules.max = {
+      value: max,
+      message: `Maximum value is ${max}`,
+    };
+  }
+
+  if (min_length !== undefined) {
+    rules.minLength = {
+      value: min_length,
+      message: `Minimum length is ${min_length} characters`,
+    };
+  }
+
+  if (max_length !== undefined) {
+    rules.maxLength = {
+      value: max_length,
+      message: `Maximum length is ${max_length} characters`,
+    };
+  }
+
+  // Field type patterns validate the raw (unmasked) value
+  if (type_definition?.pattern) {
+    try {
+      rules.pattern = {
+        value: new RegExp(type_definition.pattern),
+        message: type_definition.validation_message || "Invalid format",
+      };
+    } catch {
+      console.warn(`Invalid pattern for field type "${field_info.field_type}": ${type_definition.pattern}`);
+    }
+  }
+
+  // Addresses: every part filled in once started, and the postcode within the state
+  if (get_base_field_type(field_info.field_type, config) === "address") {
+    rules.validate = {
+      address: (value: unknown) => check_address(value) ?? true,
+    };
+  }
+
+  return rules;
+}
+
+/**
+ * Run a registered validator against a value
+ * Empty values pass (required handles them); unknown validators are logged and pass.
+ * Failures without their own severity take the field's.
+ */
+function run_named_validator(name: string, value: unknown, fallback_message: string): true | ValidationMessage {
+  if (is_empty_value(value)) {
+    return true;
+  }
+  const validator = get_validator(name);
+  if (!validator) {
+    console.warn(`Unknown validator "${name}"`);
+    return true;
+  }
+  const result = validator(value);
+  if (result === true) return true;
+  if (typeof result === "string") return { message: result };
+  if (result === false) return { message: fallback_message };
+  return result;
+}
+
+/**
+ * Get the non-blocking message for a field's value, if any
+ * Reports constraint failures on fields with validation_severity "warning" / "info",
+ * and named validator results with a warning / info severity.
+ * Empty values have no warnings (required is always an error).
+ */
+export function get_field_warning(
+  field: Pick<FormField, "field_info">,
+  value: unknown,
+  config: FormConfig
+): FieldWarning | undefined {
+  if (is_empty_value(value)) {
+    return undefined;
+  }
+  const severity = get_validation_severity(field, config);
+  if (severity !== "error") {
+    const message = check_field_rules(get_constraint_rules(field, config), value);
+    if (message) {
+      return { message, severity };
+    }
+  }
+
+  const type_definition = resolve_field_type(field.field_info.field_type, config);
+  if (type_definition?.validator) {
+    const result = run_named_validator(
+      type_definition.validator,
+      value,
+      type_definition.validation_message || "Invalid value"
+    );
+    const result_severity = result === true ? "error" : result.severity ?? severity;
+    if (result !== true && result_severity !== "error") {
+      return { message: result.message, severity: result_severity };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Async validator settings for a field
+ */
+export interface AsyncValidation {
+  /** Registered async validator name */
+  name: string;
+  /** Delay after the last change before the check runs */
+  debounce_ms: number;
+  /** Message used when the validator returns false */
+  message: string;
+}
+
+/**
+ * Get the async validator for a field, if any
+ * field_info.async_validator / async_debounce_ms override the field type's;
+ * the debounce falls back to config.async_debounce_ms
+ */
+export function get_async_validation(
+  field: Pick<FormField, "field_info">,
+  config: FormConfig
+): AsyncValidation | undefined {
+  const field_info = field.field_info;
+  const type_definition = resolve_field_type(field_info.field_type, config);
+  const name = field_info.async_validator ?? type_definition?.async_validator;
+  if (!name) {
+    return undefined;
+  }
+  return {
+    name,
+    debounce_ms:
+      field_info.async_debounce_ms ??
+      type_definition?.async_debounce_ms ??
+      config.async_debounce_ms ??
+      DEFAULT_FORM_CONFIG.async_debounce_ms,
+    message: type_definition?.validation_message || "Invalid value",
+  };
+}
+
+/**
+ * Run a registered async validator against a value
+ * Empty values pass (required handles them). Unknown validators and failed
+ * checks (e.g. a network error) are logged and pass, so an unavailable
+ * service never blocks a submit.
+ */
+export async function run_async_validator(
+  validation: AsyncValidation,
+  value: unknown,
+  context: AsyncValidatorContext
+): Promise<true | string> {
+  if (is_empty_value(value)) {
+    return true;
+  }
+  const validator = get_async_validator(validation.name);
+  if (!validator) {
+    console.warn(`Unknown async validator "${validation.name}"`);
+    return true;
+  }
+  try {
+    const result = await validator(value, context);
+    if (result === true) return true;
+    return typeof result === "string" ? result : validation.message;
+  } catch (error) {
+    if (!context.signal.aborted) {
+      console.warn(`Async validator "${validation.name}" failed for "${context.field_id}":`, error);
+    }
+    return true;
+  }
+}
+
+/**
+ * Check if a value counts as empty for validation (same as react-hook-form)
+ */
+export function is_empty_value(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === "" ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Apply field rules to a value, mirroring react-hook-form's checks
+ * Returns the first error message, or undefined when the value is valid
+ */
+export function check_field_rules(rules: FieldValidationRules, value: unknown): string | undefined {
+  if (rules.required && (is_empty_value(value) || value === false)) {
+    return rules.required;
+  }
+
+  // Empty values skip the constraints; validate functions still run (e.g. table row counts)
+  const num = typeof value === "number" ? value : typeof value === "string" && value !== "" ? Number(value) : NaN;
+  if (!isNaN(num)) {
+    if (rules.min && num < rules.min.value) return rules.min.message;
+    if (rules.max && num > rules.max.value) return rules.max.message;
+  }
+
+  if (typeof value === "string" && value !== "") {
+    if (rules.maxLength && value.length > rules.maxLength.value) return rules.maxLength.message;
+    if (rules.minLength && value.length < rules.minLength.value) return rules.minLength.message;
+    if (rules.pattern && !rules.pattern.value.test(value)) return rules.pattern.message;
+  }
+
+  for (const validate of Object.values(rules.validate || {})) {
+    const result = validate(value);
+    if (result !== true) return result;
+  }
+
+  return undefined;
+}
+
+/**
+ * Check table row-count constraints (table_min_rows / table_max_rows)
+ */
+export function check_table_rows(field: Pick<FormField, "label" | "field_info">, value: unknown): string | undefined {
+  if (field.field_info.field_type !== "table") {
+    return undefined;
+  }
+  const row_count = Array.isArray(value) ? value.length : 0;
+  const { table_min_rows, table_max_rows } = field.field_info;
+  if (table_min_rows !== undefined && row_count < table_min_rows) {
+    return `${field.label || "This table"} requires at least ${table_min_rows} row${table_min_rows === 1 ? "" : "s"}`;
+  }
+  if (table_max_rows !== undefined && row_count > table_max_rows) {
+    return `${field.label || "This table"} allows at most ${table_max_rows} row${table_max_rows === 1 ? "" : "s"}`;
+  }
+  return undefined;
+}
+
+/**
+ * A table cell that fails its column's rules
+ */
+export interface TableCellError {
+  row_index: number;
+  column_id: string;
+  message: string;
+}
+
+/**
+ * Check every table cell
+ *
+ * - Each non-computed cell against its column's field_info (required, min/max,
+ *   min_length/max_length, field type pattern and validator)
+ * - unique columns: later rows repeating a key are reported on each key column
+ * - table_row_rules: the formula is evaluated against each row (computed
+ *   columns included) and reported on the rule's column
+ *
+ * A cell reports its first failure. Returns the failing cells in row / column order.
+ */
+export function get_table_cell_errors(
+  field: Pick<FormField, "field_info">,
+  value: unknown,
+  config: FormConfig
+): TableCellError[] {
+  if (field.field_info.field_type !== "table" || !Array.isArray(value)) {
+    return [];
+  }
+  const columns = field.field_info.table_columns || [];
+  const rows = apply_table_formulas(
+    value.map((row) => (row && typeof row === "object" ? row : {}) as Record<string, unknown>),
+    columns,
+    config.rounding_mode
+  );
+  const cell_errors = new Map<string, TableCellError>();
+  const add_error = (row_index: number, column_id: string, message: string) => {
+    const key = `${row_index}:${column_id}`;
+    if (!cell_errors.has(key)) {
+      cell_errors.set(key, { row_index, column_id, message });
+    }
+  };
+
+  // Column rules (computed cells aren't entered, so they're not checked)
+  const entered_columns = columns.filter((column) => !is_computed_column(column));
+  const column_rules = entered_columns.map((column) =>
+    get_field_validation_rules({ label: "", field_info: column.field_info }, config)
+  );
+  rows.forEach((row, row_index) => {
+    entered_columns.forEach((column, column_index) => {
+      const message = check_field_rules(column_rules[column_index], row[column.id]);
+      if (message) {
+        add_error(row_index, column.id, message);
+      }
+    });
+  });
+
+  get_unique_keys(columns).forEach((key_columns) => {
+    const first_rows = new Map<string, number>();
+    rows.forEach((row, row_index) => {
+      const parts = key_columns.map((column) => row[column.id]);
+      if (parts.every(is_empty_value)) return;
+      const key = JSON.stringify(parts.map((part) => (is_empty_value(part) ? "" : String(part).trim())));
+      const first_row = first_rows.get(key);
+      if (first_row === undefined) {
+        first_rows.set(key, row_index);
+        return;
+      }
+      key_columns.forEach((column) => add_error(row_index, column.id, `Duplicate of row ${first_row + 1}`));
+    });
+  });
+
+  field.field_info.table_row_rules?.forEach((rule) => {
+    const { ast, error } = parse_formula(rule.formula);
+    if (!ast) {
+      console.warn(`Invalid table row rule for "${rule.column}" ("${rule.formula}"): ${error?.message}`);
+      return;
+    }
+    rows.forEach((row, row_index) => {
+      if (!formula_to_boolean(evaluate_formula_ast(ast, row))) {
+        add_error(row_index, rule.column, rule.message);
+      }
+    });
+  });
+
+  const column_order = new Map(columns.map((column, index) => [column.id, index]));
+  return Array.from(cell_errors.values()).sort(
+    (a, b) =>
+      a.row_index - b.row_index ||
+      (column_order.get(a.column_id) ?? columns.length) - (column_order.get(b.column_id) ?? columns.length)
+  );
+}
+
+/**
+ * Group a table's unique columns into keys
+ * unique: true is a key on its own; columns sharing a key name form one composite key
+ */
+function get_unique_keys(columns: TableColumn[]): TableColumn[][] {
+  const keys: TableColumn[][] = [];
+  const named_keys = new Map<string, TableColumn[]>();
+  columns.forEach((column) => {
+    if (column.unique === true) {
+      keys.push([column]);
+    } else if (typeof column.unique === "string" && column.unique) {
+      const key_columns = named_keys.get(column.unique);
+      if (key_columns) {
+        key_columns.push(column);
+      } else {
+        const new_key = [column];
+        named_keys.set(column.unique, new_key);
+        keys.push(new_key);
+      }
+    }
+  });
+  return keys;
+}
+
+/**
+ * Summarise a table's invalid cells as one field error
+ * e.g. "Row 2, Qty: Minimum value is 1 (and 3 more)"
+ */
+export function check_table_cells(
+  field: Pick<FormField, "field_info">,
+  value: unknown,
+  config: FormConfig
+): string | undefined {
+  const cell_errors = get_table_cell_errors(field, value, config);
+  if (cell_errors.length === 0) {
+    return undefined;
+  }
+  const first = cell_errors[0];
+  const column = field.field_info.table_columns?.find((col) => col.id === first.column_id);
+  const more = cell_errors.length > 1 ? ` (and ${cell_errors.length - 1} more)` : "";
+  return `Row ${first.row_index + 1}, ${column?.label || first.column_id}: ${first.message}${more}`;
+}
+
+/**
+ * Check a repeatable sub-section's instance count (min_instances / max_instances)
+ */
+export function check_instance_count(
+  sub_section: Pick<SubSection, "sub_section_label" | "min_instances" | "max_instances">,
+  value: unknown
+): string | undefined {
+  const count = Array.isArray(value) ? value.length : 0;
+  const { min_instances, max_instances } = sub_section;
+  const label = sub_section.sub_section_label || "This section";
+  if (min_instances !== undefined && count < min_instances) {
+    return `${label} requires at least ${min_instances} entr${min_instances === 1 ? "y" : "ies"}`;
+  }
+  if (max_instances !== undefined && count > max_instances) {
+    return `${label} allows at most ${max_instances} entr${max_instances === 1 ? "y" : "ies"}`;
+  }
+  return undefined;
+}
+
+/**
+ * Check if any section declares cross-field validation rules
+ */
+export function has_validation_rules(schema: FormSchema): boolean {
+  return schema.some((section) => !!section.validation_rules?.length);
+}
+
+/**
+ * Evaluate a single rule against form values
+ * Returns true when the rule passes. Rules that can't be parsed are
+ * logged and treated as passing so a schema typo never blocks a submit.
+ */
+export function evaluate_validation_rule(rule: ValidationRule, values: FormValues): boolean {
+  const { ast, error } = parse_formula(rule.formula);
+  if (!ast) {
+    console.warn(`Invalid validation rule for "${rule.field}" ("${rule.formula}"): ${error?.message}`);
+    return true;
+  }
+  return formula_to_boolean(evaluate_formula_ast(ast, values));
+}
+
+/**
+ * Evaluate every error-severity cross-field rule in the schema
+ *
+ * Rules in hidden sections, and rules targeting hidden fields, are skipped.
+ * Hidden field values don't take part in formulas. When several rules fail
+ * on the same field, the first one (in schema order) is reported.
+ * Pass field_ids to evaluate only the rules reporting on those fields.
+ */
+export function evaluate_validation_rules(
+  schema: FormSchema,
+  values: FormValues,
+  field_ids?: string[]
+): FormErrors {
+  const errors: FormErrors = {};
+  get_failed_rules(schema, values, (severity) => severity === "error", field_ids).forEach((rule) => {
+    if (!errors[rule.field]) {
+      errors[rule.field] = rule.message;
+    }
+  });
+  return errors;
+}
+
+/**
+ * Evaluate the warning and info cross-field rules in the schema
+ * Skips hidden sections and fields like evaluate_validation_rules()
+ * Pass field_ids to evaluate only the rules reporting on those fields
+ */
+export function evaluate_validation_warnings(
+  schema: FormSchema,
+  values: FormValues,
+  field_ids?: string[]
+): FormWarnings {
+  const warnings: FormWarnings = {};
+  get_failed_rules(schema, values, (severity) => severity !== "error", field_ids).forEach((rule) => {
+    add_warning(warnings, rule.field, {
+      message: rule.message,
+      severity: rule.severity as FieldWarning["severity"],
+    });
+  });
+  return warnings;
+}
+
+/**
+ * Get the failing rules of the given severities (and, when given, targets), in schema order
+ */
+function get_failed_rules(
+  schema: FormSchema,
+  values: FormValues,
+  include_severity: (severity: ValidationSeverity) => boolean,
+  field_ids?: string[]
+): ValidationRule[] {
+  // Skip the visibility pass when no rule reports on the requested fields
+  const targets_checked = (section: FormSection) =>
+    !!section.validation_rules?.some((rule) => !field_ids || field_ids.includes(rule.field));
+  if (!schema.some(targets_checked)) {
+    return [];
+  }
+
+  const hidden_field_ids = get_hidden_field_ids(schema, values);
+  const visible_values = omit_hidden_values(values, hidden_field_ids);
+  const failed: ValidationRule[] = [];
+
+  schema.forEach((section) => {
+    if (!section.validation_rules?.length || !is_item_visible(section, values)) {
+      return;
+    }
+    section.validation_rules.forEach((rule) => {
+      if (
+        !include_severity(rule.severity ?? "error") ||
+        hidden_field_ids.has(rule.field) ||
+        (field_ids && !field_ids.includes(rule.field))
+      ) {
+        return;
+      }
+      if (!evaluate_validation_rule(rule, visible_values)) {
+        failed.push(rule);
+      }
+    });
+  });
+
+  return failed;
+}
+
+/**
+ * Record a warning, keeping the first one per field unless a warning
+ * replaces an info message
+ */
+function add_warning(warnings: FormWarnings, field_id: string, warning: FieldWarning): void {
+  const existing = warnings[field_id];
+  if (!existing || (existing.severity === "info" && warning.severity === "warning")) {
+    warnings[field_id] = warning;
+  }
+}
+
+/**
+ * Map each field ID to the rule targets that read it, so editing a field
+ * re-validates the fields its rules report on
+ */
+export function get_rule_dependents(schema: FormSchema): Record<string, string[]> {
+  const dependents: Record<string, string[]> = {};
+  schema.forEach((section) => {
+    section.validation_rules?.forEach((rule) => {
+      get_formula_references(rule.formula).forEach((ref) => {
+        if (ref === rule.field) return;
+        if (!dependents[ref]) {
+          dependents[ref] = [];
+        }
+        if (!dependents[ref].includes(rule.field)) {
+          dependents[ref].push(rule.field);
+        }
+      });
+    });
+  });
+  return dependents;
+}
+
+/**
+ * Every visible field that takes part in validation, with paired fields
+ * flattened in after their parent (labelled "<label> (paired)")
+ * Fields of repeatable sub-sections are listed per instance by instance path.
+ */
+function get_validated_fields(
+  schema: FormSchema,
+  values: FormValues
+): Pick<FormField, "id" | "label" | "field_info">[] {
+  const hidden_field_ids = get_hidden_field_ids(schema, values);
+  const fields: Pick<FormField, "id" | "label" | "field_info">[] = [];
+  const add_fields = (group_fields: FormField[]) => {
+    group_fields.forEach((field) => {
+      if (!hidden_field_ids.has(field.id)) {
+        fields.push(field);
+      }
+      if (field.paired_field && !hidden_field_ids.has(field.paired_field.id)) {
+        fields.push({
+          ...field.paired_field,
+          label: `${field.label || "This field"} (paired)`,
+        });
+      }
+    });
+  };
+
+  schema.forEach((section) => {
+    section.sub_sections.forEach((sub_section) => {
+      if (!sub_section.repeatable) {
+        add_fields(sub_section.field_group.fields);
+      } else if (!hidden_field_ids.has(sub_section.sub_section_id)) {
+        get_instances(values, sub_section).forEach((_instance, index) => {
+          add_fields(get_instance_fields(sub_section, index));
+        });
+      }
+    });
+  });
+  return fields;
+}
+
+/**
+ * Validate submitted values against a schema without rendering a form
+ *
+ * Applies the same checks as the form: required, min/max, min_length/max_length,
+ * field type patterns, table row counts and cells, repeatable sub-section instance
+ * counts and section validation_rules. Instance fields are reported by instance path
+ * (e.g. "dependants.0.name"). Fields hidden by show_if / hide_if are skipped.
+ * Safe to call on the server (no DOM).
+ *
+ * Returns an empty object when the values are valid. Warning / info checks
+ * don't count; collect them with get_validation_warnings().
+ */
+export function validate_values(
+  schema: FormSchema,
+  values: FormValues,
+  config: FormConfig = DEFAULT_FORM_CONFIG
+): FormErrors {
+  const errors: FormErrors = {};
+
+  get_validated_fields(schema, values).forEach((field) => {
+    const error = check_field_rules(get_field_validation_rules(field, config), get_value_at_path(values, field.id));
+    if (error) {
+      errors[field.id] = error;
+    }
+  });
+
+  // Repeatable sub-section instance counts
+  const hidden_field_ids = get_hidden_field_ids(schema, values);
+  schema.forEach((section) => {
+    section.sub_sections.forEach((sub_section) => {
+      if (!sub_section.repeatable || hidden_field_ids.has(sub_section.sub_section_id)) return;
+      const error = check_instance_count(sub_section, get_value_at_path(values, sub_section.sub_section_id));
+      if (error) {
+        errors[sub_section.sub_section_id] = error;
+      }
+    });
+  });
+
+  // Cross-field rules only report on fields without a built-in error
+  Object.entries(evaluate_validation_rules(schema, values)).forEach(([field_id, message]) => {
+    if (!errors[field_id]) {
+      errors[field_id] = message;
+    }
+  });
+
+  return errors;
+}
+
+/**
+ * validate_values() for the fields of some sections only
+ * The rest of the schema only contributes the validation_rules that report on
+ * fields in the checked sections.
+ */
+export function validate_section_values(
+  schema: FormSchema,
+  values: FormValues,
+  config: FormConfig,
+  section_names: string[]
+): FormErrors {
+  const validated_schema = schema.map((section) =>
+    section_names.includes(section.section_name)
+      ? section
+      : {
+          ...section,
+          sub_sections: [],
+          validation_rules: section.validation_rules?.filter((rule) =>
+            section_names.includes(find_field_location(schema, rule.field)?.section_name ?? "")
+          ),
+        }
+  );
+  return validate_values(validated_schema, values, config);
+}
+
+/**
+ * Get the visible sections whose values pass validate_values(), in schema order
+ * Used for completion indicators; async validators and the validate prop aren't run
+ *
+ * Pass section_names to check only those sections (see validate_section_values()).
+ */
+export function get_complete_section_names(
+  schema: FormSchema,
+  values: FormValues,
+  config: FormConfig = DEFAULT_FORM_CONFIG,
+  section_names?: string[]
+): string[] {
+  const checked_sections = section_names
+    ? schema.filter((section) => section_names.includes(section.section_name))
+    : schema;
+  const errors = section_names
+    ? validate_section_values(schema, values, config, section_names)
+    : validate_values(schema, values, config);
+  const error_counts = count_errors_by_section(schema, errors);
+  return checked_sections
+    .filter((section) => is_item_visible(section, values) && !error_counts[section.section_name])
+    .map((section) => section.section_name);
+}
+
+/**
+ * Collect the non-blocking messages (warnings and info) for a set of values
+ *
+ * Covers fields with validation_severity "warning" / "info", named validators
+ * returning a warning / info severity, and section validation_rules with a
+ * warning / info severity. Fields hidden by show_if / hide_if are skipped.
+ * Pass field_ids to collect only the messages for those fields.
+ */
+export function get_validation_warnings(
+  schema: FormSchema,
+  values: FormValues,
+  config: FormConfig = DEFAULT_FORM_CONFIG,
+  field_ids?: string[]
+): FormWarnings {
+  const warnings: FormWarnings = {};
+
+  get_validated_fields(schema, values).forEach((field) => {
+    if (field_ids && !field_ids.includes(field.id)) return;
+    const warning = get_field_warning(field, get_value_at_path(values, field.id), config);
+    if (warning) {
+      add_warning(warnings, field.id, warning);
+    }
+  });
+
+  Object.entries(evaluate_validation_warnings(schema, values, field_ids)).forEach(([field_id, warning]) => {
+    add_warning(warnings, field_id, warning);
+  });
+
+  return warnings;
+}
+
+/**
+ * Split a custom validation result into blocking errors and warnings
+ * Plain strings and "error" severity messages are errors
+ */
+export function split_validation_result(result: FormValidationResult): {
+  errors: FormErrors;
+  warnings: FormWarnings;
+} {
+  const errors: FormErrors = {};
+  const warnings: FormWarnings = {};
+  Object.entries(result).forEach(([field_id, entry]) => {
+    if (typeof entry === "string") {
+      errors[field_id] = entry;
+    } else if (!entry.severity || entry.severity === "error") {
+      errors[field_id] = entry.message;
+    } else {
+      add_warning(warnings, field_id, { message: entry.message, severity: entry.severity });
+    }
+  });
+  return { errors, warnings };
+}
+
+/**
+ * validate_values() plus async validators (e.g. database lookups)
+ *
+ * Async validators run in parallel, without debounce, on visible fields that
+ * passed every sync check. Pass services (e.g. { db }) for validators that need them.
+ */
+export async function validate_values_async(
+  schema: FormSchema,
+  values: FormValues,
+  config: FormConfig = DEFAULT_FORM_CONFIG,
+  services?: Partial<HazoServices>
+): Promise<FormErrors> {
+  const errors = validate_values(schema, values, config);
+  const signal = new AbortController().signal;
+
+  await Promise.all(
+    get_validated_fields(schema, values).map(async (field) => {
+      if (errors[field.id]) return;
+      const validation = get_async_validation(field, config);
+      if (!validation) return;
+      const result = await run_async_validator(validation, get_value_at_path(values, field.id), {
+        field_id: field.id,
+        values,
+        services,
+        signal,
+      });
+      if (result !== true) {
+        errors[field.id] = result;
+      }
+    })
+  );
+
+  return errors;
+}
@@ -0,0 +1,113 @@
+import type { HazoServices } from "../context/services_context";
+import type { FormValues, ValidationMessage } from "./types";
+import { abn_checksum, acn_checksum, bsb_format, medicare_checksum, tfn_checksum } from "./validators";
+
+/**
+ * Named field validator
+ * Receives a non-empty value; returns true when valid, false (uses the field
+ * type's validation_message) or an error message when invalid. Return a
+ * ValidationMessage to report with a severity, e.g. { message, severity: "warning" }
+ */
+export type FieldValidator = (value: unknown) => boolean | string | ValidationMessage;
+
+/**
+ * Context passed to async validators
+ */
+export interface AsyncValidatorContext {
+  /** ID of the field being validated */
+  field_id: string;
+  /** Current form values */
+  values: FormValues;
+  /** Injected services (e.g. services.db for lookups) */
+  services?: Partial<HazoServices>;
+  /** Aborted when a newer value supersedes this check */
+  signal: AbortSignal;
+}
+
+/**
+ * Named async validator (e.g. a database lookup)
+ * Same results as FieldValidator, resolved asynchronously
+ */
+export type AsyncFieldValidator = (
+  value: unknown,
+  context: AsyncValidatorContext
+) => Promise<boolean | string>;
+
+/**
+ * Registry for named validators, seeded with the built-in validators
+ */
+const validators: Map<string, FieldValidator> = new Map<string, FieldValidator>([
+  ["tfn_checksum", tfn_checksum],
+  ["abn_checksum", abn_checksum],
+  ["acn_checksum", acn_checksum],
+  ["medicare_checksum", medicare_checksum],
+  ["bsb_format", bsb_format],
+]);
+
+/**
+ * Register a custom validator (or replace a built-in one)
+ */
+export function register_validator(name: string, validator: FieldValidator): void {
+  validators.set(name, validator);
+}
+
+/**
+ * Get validator by name
+ */
+export function get_validator(name: string): FieldValidator | undefined {
+  return validators.get(name);
+}
+
+/**
+ * Check if a validator is registered
+ */
+export function has_validator(name: string): boolean {
+  return validators.has(name);
+}
+
+/**
+ * Get all registered validator names
+ */
+export function get_registered_validators(): string[] {
+  return Array.from(validators.keys());
+}
+
+/**
+ * Unregister a validator
+ */
+export function unregister_validator(name: string): boolean {
+  return validators.delete(name);
+}
+
+/**
+ * Registry for named async validators
+ */
+const async_validators: Map<string, AsyncFieldValidator> = new Map();
+
+/**
+ * Register an async validator
+ */
+export function register_async_validator(name: string, validator: AsyncFieldValidator): void {
+  async_validators.set(name, validator);
+}
+
+/**
+ * Get async validator by name
+ */
+export function get_async_validator(name: string): AsyncFieldValidator | undefined {
+  return async_validators.get(name);
+}
+
+/**
+ * Check if an async validator is registered
+ */
+export function has_async_validator(name: string): boolean {
+  return async_validators.has(name);
+}
+
+/**
+ * Unregister an async validator
+ */
+export function unregister_async_validator(name: string): boolean {
+  return async_validators.delete(name);
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { abn_checksum, acn_checksum, bsb_format, medicare_checksum, tfn_checksum } from "./validators";
+import { get_validator } from "./validator_registry";
+import { DEFAULT_FIELD_TYPES_CONFIG } from "./types";
+
+describe("tfn_checksum", () => {
+  it("accepts valid 9 and 8 digit numbers, formatted or raw", () => {
+    expect(tfn_checksum("123 456 782")).toBe(true);
+    expect(tfn_checksum("123456782")).toBe(true);
+    expect(tfn_checksum("876 543 210")).toBe(true);
+    expect(tfn_checksum("81854402")).toBe(true);
+  });
+
+  it("rejects bad check digits, lengths and characters", () => {
+    expect(tfn_checksum("123 456 789")).toBe("Invalid Tax File Number");
+    expect(tfn_checksum("12345678")).toBe("Invalid Tax File Number");
+    expect(tfn_checksum("1234567820")).toBe("Invalid Tax File Number");
+    expect(tfn_checksum("12345678a")).toBe("Invalid Tax File Number");
+  });
+});
+
+describe("abn_checksum", () => {
+  it("accepts valid numbers, formatted or raw", () => {
+    expect(abn_checksum("51 824 753 556")).toBe(true);
+    expect(abn_checksum("51824753556")).toBe(true);
+    expect(abn_checksum("53 004 085 616")).toBe(true);
+  });
+
+  it("rejects bad check digits, lengths and a leading zero", () => {
+    expect(abn_checksum("51 824 753 557")).toBe("Invalid Australian Business Number");
+    expect(abn_checksum("5182475355")).toBe("Invalid Australian Business Number");
+    expect(abn_checksum("01 824 753 556")).toBe("Invalid Australian Business Number");
+  });
+});
+
+describe("acn_checksum", () => {
+  it("accepts valid numbers, formatted or raw", () => {
+    expect(acn_checksum("004 085 616")).toBe(true);
+    expect(acn_checksum("000000019")).toBe(true);
+    expect(acn_checksum("005 499 981")).toBe(true);
+    expect(acn_checksum("010 499 966")).toBe(true);
+  });
+
+  it("rejects bad check digits and lengths", () => {
+    expect(acn_checksum("004 085 617")).toBe("Invalid Australian Company Number");
+    expect(acn_checksum("00408561")).toBe("Invalid Australian Company Number");
+  });
+});
+
+describe("medicare_checksum", () => {
+  it("accepts valid 10 and 11 digit numbers", () => {
+    expect(medicare_checksum("2123 45670 1")).toBe(true);
+    expect(medicare_checksum("2123456701")).toBe(true);
+    expect(medicare_checksum("21234567011")).toBe(true);
+  });
+
+  it("rejects bad check digits, first digits and lengths", () => {
+    expect(medicare_checksum("2123 45671 1")).toBe("Invalid Medicare number");
+    expect(medicare_checksum("7123 45675 1")).toBe("Invalid Medicare number");
+    expect(medicare_checksum("212345670")).toBe("Invalid Medicare number");
+  });
+});
+
+describe("bsb_format", () => {
+  it("accepts 6 digits with or without the hyphen", () => {
+    expect(bsb_format("062-000")).toBe(true);
+    expect(bsb_format("062000")).toBe(true);
+  });
+
+  it("rejects other lengths and characters", () => {
+    expect(bsb_format("06200")).toBe("BSB must be 6 digits (XXX-XXX)");
+    expect(bsb_format("062-0000")).toBe("BSB must be 6 digits (XXX-XXX)");
+    expect(bsb_format("06a-000")).toBe("BSB must be 6 digits (XXX-XXX)");
+  });
+});
+
+describe("validator registry", () => {
+  it("has every validator the default field types reference", () => {
+    Object.values(DEFAULT_FIELD_TYPES_CONFIG.field_types).forEach((definition) => {
+      if (definition.validator) {
+        expect(get_validator(definition.validator)).toBeTypeOf("function");
+      }
+    });
+  });
+});
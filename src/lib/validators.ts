@@ -0,0 +1,94 @@
+/**
+ * Built-in named validators for Australian identifiers
+ * Referenced from form_field_types.json via `validator`, e.g. "validator": "abn_checksum"
+ *
+ * Validators receive non-empty values and return true when valid, or an error message.
+ * Spaces and hyphens are ignored so formatted and raw values both validate.
+ */
+
+/**
+ * Strip formatting characters and return the digits, or null if anything else remains
+ */
+function get_digits(value: unknown): number[] | null {
+  const cleaned = String(value).replace(/[\s-]/g, "");
+  if (!/^\d+$/.test(cleaned)) {
+    return null;
+  }
+  return cleaned.split("").map(Number);
+}
+
+/**
+ * Weighted sum of digits
+ */
+function weighted_sum(digits: number[], weights: number[]): number {
+  return weights.reduce((sum, weight, i) => sum + weight * digits[i], 0);
+}
+
+/**
+ * Tax File Number: 9 digits (or legacy 8 digits), weighted sum divisible by 11
+ */
+export function tfn_checksum(value: unknown): true | string {
+  const digits = get_digits(value);
+  if (digits?.length === 9 && weighted_sum(digits, [1, 4, 3, 7, 5, 8, 6, 9, 10]) % 11 === 0) {
+    return true;
+  }
+  if (digits?.length === 8 && weighted_sum(digits, [10, 7, 8, 4, 6, 3, 5, 1]) % 11 === 0) {
+    return true;
+  }
+  return "Invalid Tax File Number";
+}
+
+/**
+ * Australian Business Number: 11 digits; subtract 1 from the first digit,
+ * weighted sum divisible by 89
+ */
+export function abn_checksum(value: unknown): true | string {
+  const digits = get_digits(value);
+  if (digits?.length === 11 && digits[0] > 0) {
+    const adjusted = [digits[0] - 1, ...digits.slice(1)];
+    if (weighted_sum(adjusted, [10, 1, 3, 5, 7, 9, 11, 13, 15, 17, 19]) % 89 === 0) {
+      return true;
+    }
+  }
+  return "Invalid Australian Business Number";
+}
+
+/**
+ * Australian Company Number: 9 digits; the last digit is the
+ * complement (mod 10) of the weighted sum of the first 8
+ */
+export function acn_checksum(value: unknown): true | string {
+  const digits = get_digits(value);
+  if (digits?.length === 9) {
+    const remainder = weighted_sum(digits, [8, 7, 6, 5, 4, 3, 2, 1]) % 10;
+    if ((10 - remainder) % 10 === digits[8]) {
+      return true;
+    }
+  }
+  return "Invalid Australian Company Number";
+}
+
+/**
+ * Medicare card number: 10 digits (11 with the individual reference number),
+ * starting with 2-6; the 9th digit is the weighted sum of the first 8 mod 10
+ */
+export function medicare_checksum(value: unknown): true | string {
+  const digits = get_digits(value);
+  if (
+    digits &&
+    (digits.length === 10 || digits.length === 11) &&
+    digits[0] >= 2 &&
+    digits[0] <= 6 &&
+    weighted_sum(digits, [1, 3, 7, 9, 1, 3, 7, 9]) % 10 === digits[8]
+  ) {
+    return true;
+  }
+  return "Invalid Medicare number";
+}
+
+/**
+ * Bank-State-Branch number: 6 digits, optionally written as XXX-XXX
+ */
+export function bsb_format(value: unknown): true | string {
+  return /^\d{3}-?\d{3}$/.test(String(value).trim()) ? true : "BSB must be 6 digits (XXX-XXX)";
+}
@@ -0,0 +1,43 @@
+import type { FormValues } from "./types";
+
+/**
+ * Dotted field IDs ("spouse.income.salary") address nested form values,
+ * matching react-hook-form's path syntax. Array indexes are path segments
+ * ("dependants.0.name").
+ */
+
+/**
+ * Read a form value by field ID or dotted path
+ * A key matching the whole ID wins over the path, so flat working copies
+ * (e.g. formula values with computed results) resolve too
+ */
+export function get_value_at_path(values: FormValues, path: string): unknown {
+  if (path in values || !path.includes(".")) {
+    return values[path];
+  }
+  let current: unknown = values;
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Write a value at a dotted path, creating objects along the way
+ * Mutates values (use on copies being built up, e.g. default values)
+ */
+export function set_value_at_path(values: FormValues, path: string, value: unknown): void {
+  const segments = path.split(".");
+  let current: Record<string, unknown> = values;
+  segments.slice(0, -1).forEach((segment) => {
+    const next = current[segment];
+    if (next === null || typeof next !== "object") {
+      current[segment] = {};
+    }
+    current = current[segment] as Record<string, unknown>;
+  });
+  current[segments[segments.length - 1]] = value;
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { get_completed_step_ids, get_wizard_progress, resolve_wizard_steps } from "./wizard";
+import type { FormSchema } from "./types";
+
+const schema: FormSchema = ["personal", "income", "deductions", "summary"].map((section_name) => ({
+  section_name,
+  sub_sections: [],
+}));
+const steps = resolve_wizard_steps(schema, {});
+
+describe("get_completed_step_ids", () => {
+  it("counts every step before the current one as completed", () => {
+    expect(get_completed_step_ids(steps, 2, [])).toEqual(["personal", "income"]);
+    expect(get_completed_step_ids(steps, 0, [])).toEqual([]);
+  });
+
+  it("keeps steps completed further ahead", () => {
+    const completed = ["personal", "income", "deductions"];
+    expect(get_completed_step_ids(steps, 1, completed)).toBe(completed);
+    expect(get_completed_step_ids(steps, 2, ["deductions"])).toEqual(["deductions", "personal", "income"]);
+  });
+});
+
+describe("get_wizard_progress", () => {
+  it("reports the steps before a controlled step as completed", () => {
+    expect(get_wizard_progress(steps, 3, false, [])).toEqual({
+      step_index: 3,
+      step_id: "summary",
+      step_count: 4,
+      is_review: false,
+      completed_step_ids: ["personal", "income", "deductions"],
+    });
+  });
+
+  it("reports the index after the last step as the review step", () => {
+    expect(get_wizard_progress(steps, 4, true, []).is_review).toBe(true);
+    expect(get_wizard_progress(steps, 4, true, []).step_id).toBe("review");
+  });
+});
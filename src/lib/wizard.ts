@@ -0,0 +1,128 @@
+import type { FormSchema, FormSection, FormValues, WizardProgress, WizardStep } from "./types";
+import { is_item_visible } from "./conditions";
+import { find_field_location } from "./error_summary";
+
+/**
+ * Wizard layout
+ * Each step shows one or more sections. By default every visible section is a
+ * step; configured steps group sections by name. Steps whose sections are all
+ * hidden are skipped.
+ */
+
+/** Step ID of the review step */
+export const WIZARD_REVIEW_STEP_ID = "review";
+
+/**
+ * Wizard step with its visible sections
+ */
+export interface ResolvedWizardStep {
+  id: string;
+  title: string;
+  description?: string;
+  sections: FormSection[];
+}
+
+/**
+ * Resolve the wizard steps for the current values
+ * Visible sections not listed in any configured step get a step of their own
+ * after the configured steps, so no required field is left out of the wizard
+ */
+export function resolve_wizard_steps(
+  schema: FormSchema,
+  values: FormValues,
+  wizard_steps?: WizardStep[]
+): ResolvedWizardStep[] {
+  const visible_sections = schema.filter((section) => is_item_visible(section, values));
+  const section_step = (section: FormSection): ResolvedWizardStep => ({
+    id: section.section_name,
+    title: section.section_name,
+    sections: [section],
+  });
+
+  if (!wizard_steps?.length) {
+    return visible_sections.map(section_step);
+  }
+
+  const configured_steps = wizard_steps.map((step) => ({
+    id: step.id ?? step.section_names[0] ?? step.title,
+    title: step.title,
+    description: step.description,
+    sections: visible_sections.filter((section) => step.section_names.includes(section.section_name)),
+  }));
+  const listed_section_names = new Set(wizard_steps.flatMap((step) => step.section_names));
+  const unlisted_steps = visible_sections
+    .filter((section) => !listed_section_names.has(section.section_name))
+    .map(section_step);
+
+  return [...configured_steps, ...unlisted_steps].filter((step) => step.sections.length > 0);
+}
+
+/**
+ * Get the form paths validated by a step: its fields and paired fields, and
+ * the arrays of its repeatable sub-sections (which covers their instance fields)
+ */
+export function get_step_field_ids(step: ResolvedWizardStep): string[] {
+  const field_ids: string[] = [];
+  step.sections.forEach((section) => {
+    section.sub_sections.forEach((sub_section) => {
+      if (sub_section.repeatable) {
+        field_ids.push(sub_section.sub_section_id);
+        return;
+      }
+      sub_section.field_group.fields.forEach((field) => {
+        field_ids.push(field.id);
+        if (field.paired_field) {
+          field_ids.push(field.paired_field.id);
+        }
+      });
+    });
+  });
+  return field_ids;
+}
+
+/**
+ * Get the index of the step showing a field (-1 if it isn't in any step)
+ */
+export function find_field_step_index(schema: FormSchema, steps: ResolvedWizardStep[], field_id: string): number {
+  const location = find_field_location(schema, field_id);
+  if (!location) return -1;
+  return steps.findIndex((step) =>
+    step.sections.some((section) => section.section_name === location.section_name)
+  );
+}
+
+/**
+ * Get the completed step IDs for a step index: the steps completed with Next,
+ * plus every step before the current one (already visited, e.g. when the step
+ * is controlled with wizard_step or restored with default_wizard_step)
+ */
+export function get_completed_step_ids(
+  steps: ResolvedWizardStep[],
+  step_index: number,
+  completed_step_ids: string[]
+): string[] {
+  const visited_ids = steps
+    .slice(0, step_index)
+    .map((step) => step.id)
+    .filter((id) => !completed_step_ids.includes(id));
+  return visited_ids.length > 0 ? [...completed_step_ids, ...visited_ids] : completed_step_ids;
+}
+
+/**
+ * Build the progress reported for a step index (the index after the last step is the review step)
+ */
+export function get_wizard_progress(
+  steps: ResolvedWizardStep[],
+  step_index: number,
+  show_review: boolean,
+  completed_step_ids: string[]
+): WizardProgress {
+  const is_review = show_review && step_index === steps.length;
+  return {
+    step_index,
+    step_id: is_review ? WIZARD_REVIEW_STEP_ID : steps[step_index]?.id ?? "",
+    step_count: steps.length + (show_review ? 1 : 0),
+    is_review,
+    completed_step_ids: get_completed_step_ids(steps, step_index, completed_step_ids),
+  };
+}
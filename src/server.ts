@@ -0,0 +1,143 @@
+// Server-safe entry point: hazo_data_forms/server
+// Pure schema / formula / validation helpers with no React or DOM dependencies,
+// for re-checking submitted values in API routes and server actions.
+
+// Validation
+export {
+  validate_values,
+  validate_values_async,
+  get_validation_warnings,
+  split_validation_result,
+  evaluate_validation_rules,
+  evaluate_validation_warnings,
+  get_field_validation_rules,
+  get_field_warning,
+  get_validation_severity,
+  get_async_validation,
+  get_table_cell_errors,
+  check_instance_count,
+} from "./lib/validation";
+export type { FieldValidationRules, AsyncValidation, TableCellError } from "./lib/validation";
+
+// Named validators (field type `validator` / `async_validator`)
+export {
+  register_validator,
+  get_validator,
+  has_validator,
+  get_registered_validators,
+  unregister_validator,
+  register_async_validator,
+  get_async_validator,
+  has_async_validator,
+  unregister_async_validator,
+} from "./lib/validator_registry";
+export type { FieldValidator, AsyncFieldValidator, AsyncValidatorContext } from "./lib/validator_registry";
+export {
+  tfn_checksum,
+  abn_checksum,
+  acn_checksum,
+  medicare_checksum,
+  bsb_format,
+} from "./lib/validators";
+
+// Formula engine
+export {
+  parse_formula,
+  evaluate_formula_ast,
+  evaluate_expression,
+  get_formula_references,
+} from "./lib/formula_engine";
+export type {
+  FormulaValue,
+  FormulaNode,
+  FormulaBinaryOperator,
+  FormulaParseError,
+  FormulaParseResult,
+} from "./lib/formula_engine";
+export { evaluate_formula } from "./lib/utils";
+
+// Decimal arithmetic
+export {
+  decimal_add,
+  decimal_subtract,
+  decimal_multiply,
+  decimal_divide,
+  decimal_sum,
+  round_decimal,
+  format_decimal,
+} from "./lib/decimal";
+
+// Conditional visibility (show_if / hide_if)
+export {
+  evaluate_condition,
+  is_item_visible,
+  get_hidden_field_ids,
+  omit_hidden_values,
+} from "./lib/conditions";
+
+// Repeatable sub-sections
+export {
+  get_instance_field_id,
+  get_instance_defaults,
+  get_instance_label,
+} from "./lib/repeatable_sections";
+
+// Nested values (dotted field IDs)
+export { get_value_at_path, set_value_at_path } from "./lib/value_paths";
+
+// Option sources (loaders are shared with the client combobox)
+export {
+  DEFAULT_OPTION_PAGE_SIZE,
+  register_option_loader,
+  get_option_loader,
+  has_option_loader,
+  unregister_option_loader,
+  load_option_page,
+  resolve_option_labels,
+  find_valid_option_values,
+} from "./lib/option_sources";
+export type { OptionLoader, OptionLoaderRequest, OptionPage, OptionSourceContext } from "./lib/option_sources";
+export { get_parent_value, check_dependent_option_value } from "./lib/dependent_options";
+
+// Address fields
+export {
+  AU_STATES,
+  is_empty_address,
+  is_australian_address,
+  is_postcode_in_state,
+  check_address,
+  format_address,
+} from "./lib/address";
+
+// Config defaults
+export {
+  DEFAULT_FORM_CONFIG,
+  DEFAULT_FIELD_TYPES_CONFIG,
+} from "./lib/types";
+
+// Types
+export type {
+  FormSchema,
+  FormSection,
+  SubSection,
+  FormField,
+  FieldInfo,
+  OptionSource,
+  OtherOptionValue,
+  AddressValue,
+  TableColumn,
+  TableRowRule,
+  FormValues,
+  FormErrors,
+  FormConfig,
+  PartialFormConfig,
+  ValidationRule,
+  ValidationSeverity,
+  ValidationMessage,
+  FieldWarning,
+  FormWarnings,
+  FormValidationResult,
+  VisibilityCondition,
+  FieldCondition,
+  RoundingMode,
+} from "./lib/types";
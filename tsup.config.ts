@@ -3,7 +3,8 @@ import fs from "fs";
 import path from "path";
 
 export default defineConfig({
-  entry: ["src/index.ts"],
+  // server.ts is a separate, server-safe entry (no "use client" directive)
+  entry: ["src/index.ts", "src/server.ts"],
   format: ["cjs", "esm"],
   dts: true,
   splitting: false,